@@ -0,0 +1,192 @@
+import * as fs from 'fs'
+import { promisify } from 'util'
+import { parse } from 'path'
+import { lower } from '../UtilFunctions'
+import { AudioProperties } from './ChartInterfaces'
+
+const open = promisify(fs.open)
+const read = promisify(fs.read)
+const fstat = promisify(fs.fstat)
+const close = promisify(fs.close)
+
+/** The number of bytes to read from the start and end of each file */
+const HEADER_SIZE = 65536
+/** Opus audio is always decoded at 48 kHz, so Opus granule positions are in 48 kHz samples */
+const OPUS_GRANULE_RATE = 48000
+
+/** MPEG audio version ID -> sample rates for each sample rate index */
+const mpegSampleRates: { [version: number]: number[] } = {
+  0: [11025, 12000, 8000], // MPEG 2.5
+  2: [22050, 24000, 16000], // MPEG 2
+  3: [44100, 48000, 32000] // MPEG 1
+}
+/** Layer III bitrates (kbps) for each bitrate index, for MPEG 1 and MPEG 2/2.5 */
+const mpeg1Bitrates = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+const mpeg2Bitrates = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+
+/**
+ * Reads the container headers of the .ogg, .opus, .mp3, or .wav file at `filepath`. The audio is not decoded.
+ * @returns the duration, sample rate, and channel count of the audio.
+ * @throws a string error description if the file is empty, corrupt, or not a supported format.
+ */
+export async function probeAudioFile(filepath: string): Promise<AudioProperties> {
+  const fd = await open(filepath, 'r')
+  try {
+    const fileSize = (await fstat(fd)).size
+    if (fileSize == 0) { throw 'The file is empty.' }
+
+    const readBytes = async (position: number, length: number) => {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, fileSize - position)))
+      const { bytesRead } = await read(fd, buffer, 0, buffer.length, position)
+      return buffer.slice(0, bytesRead)
+    }
+
+    const head = await readBytes(0, HEADER_SIZE)
+    const tail = await readBytes(Math.max(0, fileSize - HEADER_SIZE), HEADER_SIZE)
+    switch (lower(parse(filepath).ext)) {
+      case '.ogg':
+      case '.opus': return probeOgg(head, tail)
+      case '.mp3': {
+        const audioStart = getId3v2Size(head)
+        return probeMp3(audioStart == 0 ? head : await readBytes(audioStart, HEADER_SIZE), audioStart, fileSize, tail)
+      }
+      case '.wav': return await probeWav(readBytes, fileSize)
+      default: throw 'The file is not a supported audio format.'
+    }
+  } finally {
+    await close(fd)
+  }
+}
+
+/**
+ * @returns the properties of the Ogg Vorbis or Ogg Opus file that starts with `head` and ends with `tail`.
+ * The duration comes from the granule position of the last page.
+ */
+function probeOgg(head: Buffer, tail: Buffer): AudioProperties {
+  if (head.length < 28 || head.toString('latin1', 0, 4) != 'OggS') { throw 'The file is not an Ogg file.' }
+
+  const serialNumber = head.readUInt32LE(14)
+  const segmentCount = head[26]
+  const packet = head.slice(27 + segmentCount)
+
+  let channels: number, sampleRate: number, granuleRate: number, preSkip: number
+  if (packet.toString('latin1', 0, 7) == '\x01vorbis') {
+    channels = packet[11]
+    sampleRate = packet.readUInt32LE(12)
+    granuleRate = sampleRate
+    preSkip = 0
+  } else if (packet.toString('latin1', 0, 8) == 'OpusHead') {
+    channels = packet[9]
+    preSkip = packet.readUInt16LE(10)
+    sampleRate = packet.readUInt32LE(12) || OPUS_GRANULE_RATE // The original sample rate (0 if unknown); playback is always 48 kHz
+    granuleRate = OPUS_GRANULE_RATE
+  } else {
+    throw 'The Ogg file does not contain Vorbis or Opus audio.'
+  }
+  if (channels == 0 || granuleRate == 0) { throw 'The Ogg file has an invalid header.' }
+
+  let pageStart = tail.lastIndexOf('OggS')
+  while (pageStart >= 0) {
+    if (pageStart + 27 <= tail.length && tail.readUInt32LE(pageStart + 14) == serialNumber) {
+      const granulePosition = tail.readUInt32LE(pageStart + 6) + tail.readInt32LE(pageStart + 10) * Math.pow(2, 32)
+      if (granulePosition >= 0) { // -1 means that no packets finish on this page
+        return { duration: Math.max(0, granulePosition - preSkip) / granuleRate, sampleRate, channels }
+      }
+    }
+    pageStart = pageStart == 0 ? -1 : tail.lastIndexOf('OggS', pageStart - 1)
+  }
+
+  throw 'The Ogg file is truncated.'
+}
+
+/**
+ * @returns the size of the ID3v2 tag at the start of `head`, or 0 if there isn't one.
+ * (The tag is often larger than `HEADER_SIZE` because it can contain album art)
+ */
+function getId3v2Size(head: Buffer) {
+  if (head.length < 10 || head.toString('latin1', 0, 3) != 'ID3') { return 0 }
+  const tagSize = (head[6] << 21) | (head[7] << 14) | (head[8] << 7) | head[9] // The size is stored as a "syncsafe" integer
+  return 10 + tagSize + ((head[5] & 0x10) ? 10 : 0) // The tag is followed by a 10-byte footer if that flag is set
+}
+
+/**
+ * @returns the properties of the MP3 file with audio frames that start in `head` (at `audioStart` in the file), and that ends with `tail`.
+ * The duration comes from the Xing/Info or VBRI header if there is one, otherwise the file is assumed to have a constant bitrate.
+ */
+function probeMp3(head: Buffer, audioStart: number, fileSize: number, tail: Buffer): AudioProperties {
+  let frameStart = -1
+  for (let i = 0; i + 4 <= head.length; i++) {
+    if (head[i] == 0xFF && (head[i + 1] & 0xE0) == 0xE0 && getMp3FrameHeader(head, i) !== null) {
+      frameStart = i
+      break
+    }
+  }
+  if (frameStart == -1) { throw 'The file does not contain any MP3 frames.' }
+
+  const frame = getMp3FrameHeader(head, frameStart)!
+  const samplesPerFrame = frame.version == 3 ? 1152 : 576
+  const sideInfoSize = frame.version == 3 ? (frame.channels == 1 ? 17 : 32) : (frame.channels == 1 ? 9 : 17)
+
+  const xingOffset = frameStart + 4 + sideInfoSize
+  const xingTag = head.toString('latin1', xingOffset, xingOffset + 4)
+  if ((xingTag == 'Xing' || xingTag == 'Info') && (head.readUInt32BE(xingOffset + 4) & 0x1)) {
+    const frameCount = head.readUInt32BE(xingOffset + 8)
+    return { duration: frameCount * samplesPerFrame / frame.sampleRate, sampleRate: frame.sampleRate, channels: frame.channels }
+  }
+  const vbriOffset = frameStart + 4 + 32
+  if (head.toString('latin1', vbriOffset, vbriOffset + 4) == 'VBRI') {
+    const frameCount = head.readUInt32BE(vbriOffset + 14)
+    return { duration: frameCount * samplesPerFrame / frame.sampleRate, sampleRate: frame.sampleRate, channels: frame.channels }
+  }
+
+  const id3v1Size = tail.toString('latin1', tail.length - 128, tail.length - 125) == 'TAG' ? 128 : 0
+  const audioSize = fileSize - audioStart - frameStart - id3v1Size
+  return { duration: audioSize * 8 / (frame.bitrate * 1000), sampleRate: frame.sampleRate, channels: frame.channels }
+}
+
+/**
+ * @returns the MPEG Layer III frame header at `offset` in `buffer`, or `null` if there isn't a valid frame header there.
+ */
+function getMp3FrameHeader(buffer: Buffer, offset: number) {
+  const version = (buffer[offset + 1] >> 3) & 0x3
+  const layer = (buffer[offset + 1] >> 1) & 0x3
+  const bitrateIndex = buffer[offset + 2] >> 4
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x3
+  const channelMode = buffer[offset + 3] >> 6
+  if (version == 1 || layer != 1 || bitrateIndex == 0 || bitrateIndex == 15 || sampleRateIndex == 3) { return null }
+
+  return {
+    version,
+    bitrate: (version == 3 ? mpeg1Bitrates : mpeg2Bitrates)[bitrateIndex],
+    sampleRate: mpegSampleRates[version][sampleRateIndex],
+    channels: channelMode == 3 ? 1 : 2
+  }
+}
+
+/**
+ * @returns the properties of the WAV file that is read with `readBytes`.
+ * The duration comes from the size of the "data" chunk.
+ */
+async function probeWav(readBytes: (position: number, length: number) => Promise<Buffer>, fileSize: number): Promise<AudioProperties> {
+  const riffHeader = await readBytes(0, 12)
+  if (riffHeader.toString('latin1', 0, 4) != 'RIFF' || riffHeader.toString('latin1', 8, 12) != 'WAVE') { throw 'The file is not a WAV file.' }
+
+  let format: { channels: number, sampleRate: number, byteRate: number } | null = null
+  for (let position = 12; position + 8 <= fileSize;) {
+    const chunkHeader = await readBytes(position, 8)
+    const chunkID = chunkHeader.toString('latin1', 0, 4)
+    const chunkSize = chunkHeader.readUInt32LE(4)
+    if (chunkID == 'fmt ') {
+      const fmt = await readBytes(position + 8, 16)
+      if (fmt.length < 16) { break }
+      format = { channels: fmt.readUInt16LE(2), sampleRate: fmt.readUInt32LE(4), byteRate: fmt.readUInt32LE(8) }
+    } else if (chunkID == 'data') {
+      if (format === null || format.byteRate == 0) { break }
+      const dataSize = Math.min(chunkSize, fileSize - position - 8) // The file may be truncated
+      return { duration: dataSize / format.byteRate, sampleRate: format.sampleRate, channels: format.channels }
+    }
+    position += 8 + chunkSize + (chunkSize % 2) // Chunks are padded to an even number of bytes
+  }
+
+  throw 'The WAV file does not have a valid "fmt " and "data" chunk.'
+}
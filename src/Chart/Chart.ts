@@ -1,7 +1,7 @@
 import * as fs from 'fs'
 import { join } from 'path'
 import sharp from 'sharp'
-import { ChartMetadata, ChartData } from './ChartInterfaces'
+import { ChartMetadata, ChartData, AudioStem } from './ChartInterfaces'
 import { hasAlbumName, hasImageExtension } from './ChartUtils'
 import { DriveChart } from '../Drive/DriveInterfaces'
 import { cyan, green } from 'cli-color'
@@ -27,6 +27,9 @@ export class Chart {
     /** Contains useful information derived from notes.chart or notes.mid */
     public chartData: ChartData,
 
+    /** The properties of each audio file in `filepath` */
+    public audioStems: AudioStem[],
+
     /** The most recent modification made to the chart files */
     public lastModified: Date | undefined
   ) { }
@@ -34,26 +37,17 @@ export class Chart {
   /**
    * @returns an image buffer for the album art in the folder `this.filepath`,
    * resized to 500x500 with jpeg quality 75 (or `null` if the album art could not be loaded)
+   * (Problems with the album art are found by `getImageIssues` when the chart is scanned)
    */
   async getAlbumArt() {
     for (const file of this.files) {
       if (file.isFile() && hasAlbumName(file.name) && hasImageExtension(file.name)) {
-        const albumPath = join(this.filepath, file.name)
         try {
-          const image = sharp(albumPath)
-          const metadata = await image.metadata()
-          const heightWidth = `${metadata.height}x${metadata.width}`
-          if (heightWidth != '500x500' && heightWidth != '512x512') {
-            this.addError('albumSize', `This chart's album art is not 500x500 or 512x512.`)
-          }
-
-          return image
+          return await sharp(join(this.filepath, file.name))
             .resize(500, 500)
             .jpeg({ quality: 75 }) // Note: reducing quality is more effective than reducing image size
             .toBuffer()
-        } catch (err) {
-          this.addError('badAlbum:' + file.name, `Failed to parse "${file.name}"; it may not be formatted correctly.`)
-        }
+        } catch (err) { } // The album art is not displayed
       }
     }
 
@@ -82,11 +76,4 @@ export class Chart {
     const [ artist, name, charter ] = [ this.chartMetadata.artist, this.chartMetadata.name, this.chartMetadata.charter ]
     return `"${green(artist)}" - "${green(name)}" (${cyan(charter)})`
   }
-
-  /**
-   * Adds a library issue to `Library.libraryIssues` for this version with `type` and `description`.
-   */
-  protected addError(errorID: string, errorDescription: string) {
-    // TODO: addError(this, errorID, errorDescription)
-  }
 }
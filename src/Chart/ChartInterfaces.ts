@@ -37,6 +37,8 @@ export const defaultMetadata = {
   'album_track': 16000,
   'playlist_track': 16000,
   'modchart': false,
+  'pro_drums': false,
+  'five_lane_drums': false,
   'delay': 0,
   'hopo_frequency': 0,
   'eighthnote_hopo': false,
@@ -44,6 +46,20 @@ export const defaultMetadata = {
   'video_start_time': 0
 }
 
+/** The IDs of the rules that are checked against each chart's metadata */
+export const metadataRuleIDs = [
+  'missingMetadata',
+  'nonNumericYear',
+  'metadataStyleTags',
+  'invalidDifficultyValue',
+  'missingDifficultyValue',
+  'chartMetadataMismatch',
+  'unusedDifficultyValue',
+  'missingBandDifficulty',
+  'drumTypeMismatch'
+] as const
+export type MetadataRuleID = typeof metadataRuleIDs[number]
+
 export interface ChartData {
   metadata: {
     name?: string
@@ -65,19 +81,251 @@ export interface ChartData {
   hasSoloSections: boolean
   hasLyrics: boolean
   is120: boolean
-  brokenNotes: {
-    index: number,
-    section: { index: number; section: string }
-    time: number
-  }[]
+  brokenNotes: BrokenNote[]
   hasDuplicateTracks: boolean
   noteCounts: {
     [instrument: string]: {
       [difficulty: string]: number
     }
   }
+  /** The MD5 hash of the chart file (CH identifies charts with this hash) */
+  chartHash: string
+  /** A hash of the played notes in each track that has notes. Tracks with the same notes have the same hash. */
+  trackHashes: {
+    [instrument: string]: {
+      [difficulty: string]: string
+    }
+  }
   /** number of seconds */
   length: number
   /** number of seconds */
   effectiveLength: number
+  /** Information about the drums track, or `null` if the chart doesn't have drums */
+  drums: DrumsData | null
+  /** Information about each vocals track (PART VOCALS and the HARM1-3 harmony tracks) */
+  vocals: VocalsData[]
+  /** Sustain problems in each guitar-style track (tracks without any problems are not included) */
+  sustains: SustainsData[]
+  /** Star power and solo section problems in each track (tracks without any problems are not included) */
+  phrases: PhrasesData[]
+  /** Problems between the difficulties of each instrument (instruments without any problems are not included) */
+  difficulties: DifficultiesData[]
+  /** Information about the tempo map and time signatures */
+  tempoMap: TempoMapData
+}
+
+/**
+ * A note that is so close to the previous note in the same track that it is very likely a mistake.
+ */
+export interface BrokenNote {
+  instrument: Instrument
+  difficulty: Difficulty
+  /** The tick of the earlier of the two notes */
+  index: number
+  /** The section that contains the note, or `null` if the note is before the first section */
+  section: { index: number; section: string } | null
+  /** number of seconds */
+  time: number
+  /** The number of ticks between the two notes */
+  distance: number
+}
+
+export interface AudioProperties {
+  /** number of seconds */
+  duration: number
+  sampleRate: number
+  channels: number
+}
+
+export interface AudioStem {
+  /** The filename of the audio file */
+  name: string
+  /** The properties read from the file's headers, or `null` if the file couldn't be read */
+  properties: AudioProperties | null
+  /** A description of why the file couldn't be read, or `null` if it was read successfully */
+  error: string | null
+}
+
+export interface DrumsData {
+  /** `true` if any notes have cymbal markers (or tom markers in a .mid file), which makes this a pro drums chart */
+  hasProDrums: boolean
+  /** The number of notes with cymbal markers in each difficulty */
+  cymbalCounts: { [difficulty: string]: number }
+  /** `true` if Expert has any Expert+ (double kick) notes */
+  hasExpertPlusKick: boolean
+  /** 5 if any notes use the fifth lane (five-lane green), otherwise 4 */
+  laneCount: 4 | 5
+  /** `true` if there are any drum fills (activation lanes) */
+  hasActivationLanes: boolean
+  /** `true` if there are any drum roll or special drum roll lanes */
+  hasRolls: boolean
+  /** Five-lane green notes in a chart that has cymbal markers (which are only supported for four-lane drums) */
+  fiveLaneNotesInProChart: NotePosition[]
+  /** Cymbal markers that don't have a note in the same lane */
+  orphanedCymbalMarkers: NotePosition[]
+  /** Expert+ kicks that are on the same tick as a regular kick */
+  doubledKicks: NotePosition[]
+}
+
+export interface SustainsData {
+  instrument: Instrument
+  difficulty: Difficulty
+  /** Sustains that continue past the start of the next note on the same fret */
+  overlappingSustains: NotePosition[]
+  /** Sustains that are so short that they are very likely a mistake */
+  tinySustains: NotePosition[]
+  /** Sustains that continue past the `end` event */
+  sustainsPastEnd: NotePosition[]
+  /** Chords that have notes with different sustain lengths */
+  disjointChords: NotePosition[]
+}
+
+export interface PhrasesData {
+  instrument: Instrument
+  difficulty: Difficulty
+  /** Star power phrases that don't contain any notes */
+  emptyStarPower: NotePosition[]
+  /** Star power phrases that start before the previous star power phrase ends */
+  overlappingStarPower: NotePosition[]
+  /** `solo` events without a matching `soloend` event, and `soloend` events without a matching `solo` event */
+  unmatchedSoloEvents: NotePosition[]
+  /** Solo sections that don't contain any notes */
+  emptySoloSections: NotePosition[]
+  /** `true` if this track doesn't have any star power, but the Expert track for the same instrument does */
+  missingStarPower: boolean
+}
+
+export interface DifficultiesData {
+  instrument: Instrument
+  /** The number of notes (counting chords as one note) in each difficulty */
+  noteCounts: { [difficulty in Difficulty]?: number }
+  /** Lower difficulties that have more notes than the next higher difficulty */
+  invertedDifficulties: { lower: Difficulty, higher: Difficulty }[]
+  /** Difficulties that are missing between the lowest and highest difficulties */
+  missingDifficulties: Difficulty[]
+  /** Lower difficulties that have exactly the same notes as Expert */
+  expertCopies: Difficulty[]
+  /** Lower difficulties that use note types that Expert doesn't use, and the .chart note numbers of those notes */
+  extraNoteTypes: { difficulty: Difficulty, values: number[] }[]
+}
+
+export interface TempoMapData {
+  /** `true` if the first BPM marker isn't at tick 0 */
+  firstTempoNotAtStart: boolean
+  /** BPM markers that are zero, negative, or too extreme to be intentional */
+  extremeTempos: (NotePosition & { bpm: number })[]
+  /** BPM markers that aren't on a beat */
+  offBeatTempos: (NotePosition & { bpm: number })[]
+  /** Time signatures with a denominator that CH doesn't read the way the charter most likely intended */
+  invalidTimeSignatures: (NotePosition & { numerator: number, denominator: number })[]
+  /** The number of beats between the start of the chart and the last note */
+  beatCount: number
+  /** `true` if the tempo map has the same whole-number BPM for all the notes, and only a few BPM markers */
+  isNotBeatMapped: boolean
+}
+
+export interface VocalsData {
+  part: VocalPart
+  lyricCount: number
+  phraseCount: number
+  /** Lyrics that aren't inside a phrase */
+  lyricsOutsidePhrases: NotePosition[]
+  /** Phrases that don't contain any lyrics */
+  emptyPhrases: NotePosition[]
+  /** Lyrics with a "+", "-", or "#" marker that doesn't have a syllable to connect to (or isn't at the end of the syllable) */
+  unmatchedMarkers: NotePosition[]
+  /** Lyrics after the last vocal note (or the last instrument note if the track doesn't have vocal notes) */
+  lyricsAfterLastNote: NotePosition[]
+}
+
+export interface NotePosition {
+  tick: number
+  /** number of seconds */
+  time: number
+}
+
+export type Instrument = 'guitar' | 'bass' | 'rhythm' | 'drums' | 'keys' | 'guitarghl' | 'bassghl'
+export type Difficulty = 'x' | 'h' | 'm' | 'e'
+export type VocalPart = 'vocals' | 'harm1' | 'harm2' | 'harm3'
+
+/**
+ * A typed representation of the contents of a chart file.
+ * All positions and lengths are in ticks. (`resolution` is the number of ticks in each beat)
+ */
+export interface ChartModel {
+  resolution: number
+  metadata: ChartData['metadata']
+  tempos: TempoMarker[]
+  timeSignatures: TimeSignatureMarker[]
+  /**
+   * The tick of the first BPM marker in the file. If this isn't 0, a 120 BPM marker is added at tick 0 (which is what CH uses until the first marker).
+   * (MIDI files without any tempo events use the default tempo of 120 BPM, so this is 0 for those files)
+   */
+  firstTempoTick: number
+  /** The `section` events from `events`, with the "section " prefix removed */
+  sections: ChartEvent[]
+  /** All global events (sections, lyrics, phrases, and any other text events) */
+  events: ChartEvent[]
+  /** All the instrument tracks, in the order they appear in the file */
+  tracks: ChartTrack[]
+  /** The vocals track, followed by any harmony tracks */
+  vocalTracks: VocalTrack[]
+}
+
+export interface ChartTrack {
+  instrument: Instrument
+  difficulty: Difficulty
+  /** All the note events in this track, sorted by tick. This includes modifiers like forcing and tap flags. */
+  notes: ChartNote[]
+  starPower: ChartPhrase[]
+  /** Solo sections created by pairing each `solo` event with the next `soloend` event */
+  soloSections: ChartPhrase[]
+  /** Phrases other than star power (e.g. drum fills and drum rolls) */
+  specialPhrases: SpecialPhrase[]
+  /** Text events that are local to this track (e.g. `solo` and `soloend`) */
+  events: ChartEvent[]
+}
+
+export interface VocalTrack {
+  part: VocalPart
+  /** Lyric phrases (`phrase_start` and `phrase_end` events in a .chart file, or notes 105 and 106 in a .mid file) */
+  phrases: ChartPhrase[]
+  /** Lyric syllables, including any syllable markers. (e.g. "+", "-", or "#") */
+  lyrics: ChartEvent[]
+  /** Pitched and percussion notes. (a .chart file doesn't store vocal notes, so this is always empty for .chart files) */
+  notes: ChartPhrase[]
+}
+
+export interface ChartNote {
+  tick: number
+  /** The .chart note number (e.g. 0-4 are the five frets, 5 is forced, 6 is tap, 7 is open) */
+  value: number
+  /** The sustain length */
+  length: number
+}
+
+export interface ChartPhrase {
+  tick: number
+  length: number
+}
+
+export interface SpecialPhrase extends ChartPhrase {
+  /** The .chart phrase type (e.g. 64 is a drum fill/activation lane) */
+  type: number
+}
+
+export interface ChartEvent {
+  tick: number
+  text: string
+}
+
+export interface TempoMarker {
+  tick: number
+  bpm: number
+}
+
+export interface TimeSignatureMarker {
+  tick: number
+  numerator: number
+  denominator: number
 }
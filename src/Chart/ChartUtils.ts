@@ -2,9 +2,50 @@ import { lower } from '../UtilFunctions'
 import { Dirent } from 'fs'
 import { parse } from 'path'
 import { analyse } from 'chardet'
+import { ChartTrack, Difficulty, Instrument } from './ChartInterfaces'
 
 const ALLOWED_ENCODINGS = ['UTF-8', 'ISO-8859-1', 'ISO-8859-2', 'ISO-8859-9', 'windows-1252', 'UTF-16LE']
 
+const instrumentNames: { [instrument in Instrument]: string } = {
+  guitar: 'Guitar',
+  bass: 'Bass',
+  rhythm: 'Rhythm',
+  drums: 'Drums',
+  keys: 'Keys',
+  guitarghl: 'GHL Guitar',
+  bassghl: 'GHL Bass'
+}
+const difficultyNames: { [difficulty in Difficulty]: string } = { x: 'Expert', h: 'Hard', m: 'Medium', e: 'Easy' }
+
+/** The .chart note numbers that represent notes that are played (rather than modifiers like forcing or tap flags) */
+const playedNoteValues = [0, 1, 2, 3, 4, 7, 8]
+/** The .chart note numbers that represent drum notes that are played (rather than modifiers like cymbal markers) */
+const playedDrumValues = [0, 1, 2, 3, 4, 5, 32]
+
+/** The issue ID and description for each type of file that doesn't belong in a chart folder */
+const junkFileTypes: { errorID: string, matches: (name: string) => boolean, description: string }[] = [
+  {
+    errorID: 'systemFile',
+    matches: name => ['desktop.ini', '.ds_store', 'thumbs.db'].includes(lower(name)) || name.startsWith('._'),
+    description: 'is a file created by the operating system'
+  },
+  {
+    errorID: 'archiveFile',
+    matches: name => ['.zip', '.rar', '.7z', '.tar', '.gz'].includes(lower(parse(name).ext)),
+    description: 'is an archive that should have been extracted and deleted'
+  },
+  {
+    errorID: 'backupFile',
+    matches: name => lower(parse(name).ext) == '.bak',
+    description: 'is a backup file'
+  },
+  {
+    errorID: 'otherGameFile',
+    matches: name => ['.sm', '.ssc', '.dta'].includes(lower(parse(name).ext)),
+    description: 'is used by a different game'
+  }
+]
+
 /**
  * @returns the most likely text encoding for text in `buffer`.
  */
@@ -31,6 +72,13 @@ export function appearsToBeChartFolder(extensions: string[]) {
   return (containsNotes || containsAudio)
 }
 
+/**
+ * @returns the type of junk file that `name` is (a file that doesn't belong in a chart folder), or `undefined` if it isn't junk.
+ */
+export function getJunkFileType(name: string) {
+  return junkFileTypes.find(type => type.matches(name))
+}
+
 /**
  * @returns `true` if `name` has a valid chart audio file extension.
  */
@@ -140,4 +188,26 @@ export function hasBackgroundName(name: string) {
  */
 export function hasVideoExtension(name: string) {
   return (['.mp4', '.avi', '.webm', '.ogv', '.mpeg'].includes(parse(lower(name)).ext))
-}
\ No newline at end of file
+}
+
+/**
+ * @returns the display name of `instrument`. (e.g. "GHL Guitar")
+ */
+export function getInstrumentName(instrument: Instrument) {
+  return instrumentNames[instrument]
+}
+
+/**
+ * @returns the display name of the track for `instrument` and `difficulty`. (e.g. "Expert Guitar")
+ */
+export function getTrackName(instrument: Instrument, difficulty: Difficulty) {
+  return `${difficultyNames[difficulty]} ${instrumentNames[instrument]}`
+}
+
+/**
+ * @returns the notes in `track` that are played. (not modifiers like forcing or tap flags)
+ */
+export function getPlayedNotes(track: ChartTrack) {
+  const values = track.instrument == 'drums' ? playedDrumValues : playedNoteValues
+  return track.notes.filter(note => values.includes(note.value))
+}
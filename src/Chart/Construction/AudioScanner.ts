@@ -0,0 +1,88 @@
+import { join, parse } from 'path'
+import { probeAudioFile } from '../AudioProbe'
+import { AudioStem, ChartData, ChartMetadata } from '../ChartInterfaces'
+import { hasAudioExtension } from '../ChartUtils'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+import { lower } from '../../UtilFunctions'
+import { ChartFolder } from './ChartsScanner'
+import { formatTimestamp } from './ChartTiming'
+
+/** Audio lengths that differ by less than this many seconds are considered the same */
+const LENGTH_TOLERANCE = 1
+
+/**
+ * Reads the headers of each audio file in `chartFolder`.
+ * @returns an `AudioStem` object for each audio file.
+ */
+export async function scanAudio(chartFolder: ChartFolder): Promise<AudioStem[]> {
+  const audioStems: AudioStem[] = []
+  for (const file of chartFolder.files) {
+    if (!file.isFile() || !hasAudioExtension(file.name)) { continue }
+
+    try {
+      audioStems.push({ name: file.name, properties: await probeAudioFile(join(chartFolder.path, file.name)), error: null })
+    } catch (err) {
+      audioStems.push({ name: file.name, properties: null, error: typeof err == 'string' ? err : 'The file is corrupt.' })
+    }
+  }
+
+  return audioStems
+}
+
+/**
+ * @returns the issues found in `audioStems`, compared with the length of the chart in `chartData` and `metadata`.
+ */
+export function getAudioIssues(audioStems: AudioStem[], chartData: ChartData, metadata: ChartMetadata): ChartDataIssue[] {
+  const issues: ChartDataIssue[] = []
+  for (const stem of audioStems) {
+    if (stem.error !== null) {
+      issues.push({ errorID: 'badAudio:' + stem.name, description: `Failed to read "${stem.name}"; it may be corrupt. (${stem.error})` })
+    }
+  }
+
+  const songStems = getSongStems(audioStems)
+  if (songStems.length == 0) { return issues }
+  const durations = songStems.map(stem => stem.properties!.duration)
+  const audioLength = Math.max(...durations)
+
+  if (audioLength - Math.min(...durations) >= LENGTH_TOLERANCE) {
+    issues.push({
+      errorID: 'audioLengthMismatch',
+      description: `The audio stems have different lengths: ${songStems.map(stem => `"${stem.name}" (${formatTimestamp(stem.properties!.duration)})`).join(', ')}.`
+    })
+  }
+
+  const chartLength = chartData.length + metadata.delay / 1000 // A positive delay makes the notes start later in the audio
+  if (chartLength - audioLength >= LENGTH_TOLERANCE) {
+    issues.push({
+      errorID: 'audioShorterThanChart',
+      description: `The notes continue until ${formatTimestamp(chartLength)}, but the audio ends at ${formatTimestamp(audioLength)}.`
+    })
+  }
+
+  if (metadata.song_length > 0 && Math.abs(metadata.song_length / 1000 - audioLength) >= LENGTH_TOLERANCE) {
+    issues.push({
+      errorID: 'songLengthMismatch',
+      description: `"song.ini" has "song_length" = ${metadata.song_length} (${formatTimestamp(metadata.song_length / 1000)}), `
+        + `but the audio is ${formatTimestamp(audioLength)} long.`
+    })
+  }
+
+  return issues
+}
+
+/**
+ * @returns the length of the longest stem in `audioStems` in seconds, or `null` if none of the stems could be read.
+ * (The preview isn't included)
+ */
+export function getAudioLength(audioStems: AudioStem[]) {
+  const songStems = getSongStems(audioStems)
+  return songStems.length == 0 ? null : Math.max(...songStems.map(stem => stem.properties!.duration))
+}
+
+/**
+ * @returns the stems in `audioStems` that could be read, except for the preview. (which doesn't need to be the same length as the song)
+ */
+function getSongStems(audioStems: AudioStem[]) {
+  return audioStems.filter(stem => stem.properties !== null && lower(parse(stem.name).name) != 'preview')
+}
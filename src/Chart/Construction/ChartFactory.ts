@@ -4,11 +4,23 @@ import { Chart } from '../Chart'
 import { hasChartExtension, hasChartName, hasAudioExtension, hasAudioName, getMainChart } from '../ChartUtils'
 import { IniScanner } from './IniScanner'
 import { basename, join, parse } from 'path'
-import { parseChartFile } from './ChartScanner'
+import { getBrokenNotesIssues, parseChartFile } from './ChartScanner'
 import { parseMidiFile } from './MidScanner'
 import { DriveChart } from '../../Drive/DriveInterfaces'
 import { lower } from '../../UtilFunctions'
 import { ChartFolder } from './ChartsScanner'
+import { issueRegistry } from '../../Issues/IssueRegistry'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+import { getAudioIssues, scanAudio } from './AudioScanner'
+import { getDifficultyIssues } from './DifficultyScanner'
+import { getDrumsIssues } from './DrumsScanner'
+import { getImageIssues } from './ImageScanner'
+import { getMetadataIssues } from './MetadataScanner'
+import { getOffsetIssues } from './OffsetScanner'
+import { getPhraseIssues } from './PhraseScanner'
+import { getSustainIssues } from './SustainScanner'
+import { getTempoMapIssues } from './TempoScanner'
+import { getVocalsIssues } from './VocalsScanner'
 
 /**
  * Constructs a `Chart` object.
@@ -22,16 +34,18 @@ export class ChartFactory {
    * @throws a string error description if the chart was not able to be scanned.
    */
   static async construct(chartFolder: ChartFolder, driveChart: DriveChart | undefined, sourceName: string) {
-    const newFactory = new ChartFactory(chartFolder, driveChart)
+    const newFactory = new ChartFactory(chartFolder, driveChart, sourceName)
 
-    const metadata = IniScanner.construct(chartFolder, driveChart)
-    if (metadata == null) {
+    const iniData = IniScanner.construct(chartFolder, driveChart, sourceName)
+    if (iniData == null) {
       throw `"${newFactory.chartText}" has missing metadata.`
     }
+    const { metadata, iniStrings } = iniData
     newFactory.chartText = `"${metadata.artist}" - "${metadata.name}" (${metadata.charter})`
 
     const hasValidChart = newFactory.hasValidChart()
     newFactory.hasValidAudio()
+    const audioStems = await scanAudio(chartFolder)
     const chartData = await newFactory.getChartData()
     const lastModified = newFactory.getLastModified()
 
@@ -40,11 +54,19 @@ export class ChartFactory {
     } else if (chartData == null) {
       throw `${newFactory.chartText} has an invalid chart file.`
     } else {
-      return new Chart(sourceName, chartFolder.path, chartFolder.files, driveChart, metadata, chartData, lastModified)
+      if (metadata.song_length == 0) {
+        newFactory.addError('noSongLength', `"song.ini" doesn't specify "song_length".`)
+      }
+      newFactory.addChartDataErrors(chartData)
+      newFactory.addErrors(getMetadataIssues(metadata, chartData, iniStrings))
+      newFactory.addErrors(getAudioIssues(audioStems, chartData, metadata))
+      newFactory.addErrors(getOffsetIssues(chartFolder, audioStems, chartData, metadata))
+      newFactory.addErrors(await getImageIssues(chartFolder))
+      return new Chart(sourceName, chartFolder.path, chartFolder.files, driveChart, metadata, chartData, audioStems, lastModified)
     }
   }
 
-  private constructor(private chartFolder: ChartFolder, private driveChart: DriveChart | undefined) {
+  private constructor(private chartFolder: ChartFolder, private driveChart: DriveChart | undefined, private sourceName: string) {
     this.chartText = driveChart?.itemName || basename(chartFolder.path)
   }
 
@@ -52,8 +74,31 @@ export class ChartFactory {
    * Adds an error for this chart with `errorID` and `errorDescription`.
    */
   private addError(errorID: string, errorDescription: string) {
-    console.log('added error:', errorID, errorDescription)
-    // TODO: addIncompleteError(this.driveChart, errorID, this.filepath, errorDescription)
+    issueRegistry.addIncompleteError(this.driveChart, this.sourceName, errorID, this.chartFolder.path, errorDescription)
+  }
+
+  /**
+   * Adds an error for each issue in `issues`.
+   */
+  private addErrors(issues: ChartDataIssue[]) {
+    for (const issue of issues) {
+      this.addError(issue.errorID, issue.description)
+    }
+  }
+
+  /**
+   * Adds an error for each issue found in `chartData`.
+   */
+  private addChartDataErrors(chartData: ChartData) {
+    this.addErrors([
+      ...getBrokenNotesIssues(chartData),
+      ...getDrumsIssues(chartData),
+      ...getSustainIssues(chartData),
+      ...getPhraseIssues(chartData),
+      ...getDifficultyIssues(chartData),
+      ...getTempoMapIssues(chartData),
+      ...getVocalsIssues(chartData)
+    ])
   }
 
   /**
@@ -125,7 +170,6 @@ export class ChartFactory {
         }
         mainChartData = (mainChart == file ? newChartData : mainChartData)
       } catch(err) {
-        console.log(err)
         this.addError('badChart:' + file.name, `Failed to parse "${file.name}"; it may not be formatted correctly.`)
       }
     }
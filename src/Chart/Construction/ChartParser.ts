@@ -0,0 +1,287 @@
+import { ChartData, ChartEvent, ChartModel, ChartPhrase, ChartTrack, Difficulty, Instrument, VocalTrack } from '../ChartInterfaces'
+
+type FileSections = { [sectionName: string]: string[] }
+type TrackEvent = { tick: number, type: string, values: string[] }
+
+const trackMap: { [sectionName: string]: `${Instrument}.${Difficulty}` } = {
+  'ExpertSingle': 'guitar.x',
+  'HardSingle': 'guitar.h',
+  'MediumSingle': 'guitar.m',
+  'EasySingle': 'guitar.e',
+
+  'ExpertDoubleBass': 'bass.x',
+  'HardDoubleBass': 'bass.h',
+  'MediumDoubleBass': 'bass.m',
+  'EasyDoubleBass': 'bass.e',
+
+  'ExpertDoubleRhythm': 'rhythm.x',
+  'HardDoubleRhythm': 'rhythm.h',
+  'MediumDoubleRhythm': 'rhythm.m',
+  'EasyDoubleRhythm': 'rhythm.e',
+
+  'ExpertDrums': 'drums.x',
+  'HardDrums': 'drums.h',
+  'MediumDrums': 'drums.m',
+  'EasyDrums': 'drums.e',
+
+  'ExpertKeyboard': 'keys.x',
+  'HardKeyboard': 'keys.h',
+  'MediumKeyboard': 'keys.m',
+  'EasyKeyboard': 'keys.e',
+
+  'ExpertGHLGuitar': 'guitarghl.x',
+  'HardGHLGuitar': 'guitarghl.h',
+  'MediumGHLGuitar': 'guitarghl.m',
+  'EasyGHLGuitar': 'guitarghl.e',
+
+  'ExpertGHLBass': 'bassghl.x',
+  'HardGHLBass': 'bassghl.h',
+  'MediumGHLBass': 'bassghl.m',
+  'EasyGHLBass': 'bassghl.e',
+}
+
+/** The .chart phrase type for star power */
+const STAR_POWER_PHRASE = 2
+
+/**
+ * Parses the text of a .chart file.
+ * @returns a `ChartModel` containing the contents of `chartText`.
+ * @throws a string error description if `chartText` is formatted incorrectly.
+ */
+export function parseChartText(chartText: string): ChartModel {
+  const fileSections = getFileSections(chartText)
+
+  if (fileSections['Song'] === undefined) { throw 'Chart did not contain a [Song] section.' }
+  if (fileSections['SyncTrack'] === undefined) { throw 'Chart does not contain a [SyncTrack] section.' }
+  if (fileSections['Events'] === undefined) { throw 'Chart did not contain an [Events] section.' }
+
+  const metadata = getMetadata(fileSections['Song'])
+  const syncTrack = getTrackEvents(fileSections['SyncTrack'])
+  const events = getTrackEvents(fileSections['Events']).filter(event => event.type == 'E').map(getChartEvent)
+
+  const tempos = syncTrack.filter(event => event.type == 'B').map(event => ({ tick: event.tick, bpm: Number(event.values[0]) / 1000 }))
+  if (tempos.length == 0) { throw 'Chart does not contain any BPM markers.' }
+  if (tempos.some(tempo => isNaN(tempo.bpm))) { throw 'Chart contains an invalid BPM marker.' }
+  tempos.sort((a, b) => a.tick - b.tick)
+  const firstTempoTick = tempos[0].tick
+  if (firstTempoTick != 0) {
+    tempos.unshift({ tick: 0, bpm: 120 }) // CH uses 120 BPM until the first BPM marker
+  }
+
+  const timeSignatures = syncTrack.filter(event => event.type == 'TS').map(event => ({
+    tick: event.tick,
+    numerator: Number(event.values[0]),
+    denominator: Math.pow(2, event.values[1] === undefined ? 2 : Number(event.values[1])) // The denominator is stored as a power of two
+  }))
+  if (timeSignatures.some(timeSignature => isNaN(timeSignature.numerator) || isNaN(timeSignature.denominator))) {
+    throw 'Chart contains an invalid time signature marker.'
+  }
+
+  const tracks: ChartTrack[] = []
+  for (const sectionName in fileSections) {
+    if (trackMap[sectionName] !== undefined) {
+      tracks.push(getTrack(trackMap[sectionName], getTrackEvents(fileSections[sectionName])))
+    }
+  }
+  if (tracks.length == 0) { throw 'Chart does not contain any instruments.' }
+  const vocalTrack = getVocalTrack(events)
+
+  return {
+    resolution: metadata.resolution,
+    metadata,
+    tempos,
+    timeSignatures: timeSignatures.sort((a, b) => a.tick - b.tick),
+    firstTempoTick,
+    sections: events.filter(event => event.text.startsWith('section ')).map(event => ({ tick: event.tick, text: event.text.substr(8) })),
+    events,
+    tracks,
+    vocalTracks: vocalTrack ? [vocalTrack] : []
+  }
+}
+
+/**
+ * @returns an object containing the lines inside each `[SectionName] { ... }` block in `chartText`, without blank lines.
+ * @throws an exception if a section is not closed.
+ */
+function getFileSections(chartText: string) {
+  const fileSections: FileSections = {}
+  let currentSection: string | null = null
+  let currentLines: string[] | null = null
+
+  for (const rawLine of chartText.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (line.length == 0) { continue }
+
+    if (currentLines === null) {
+      if (line.startsWith('[') && line.endsWith(']')) {
+        currentSection = line.slice(1, -1)
+      } else if (line == '{' && currentSection !== null) {
+        currentLines = []
+      }
+    } else if (line == '}') {
+      fileSections[currentSection!] ??= currentLines // If a section is duplicated, CH uses the first one
+      currentSection = null
+      currentLines = null
+    } else {
+      currentLines.push(line)
+    }
+  }
+
+  if (currentLines !== null) { throw `Chart's [${currentSection}] section is not closed.` }
+  return fileSections
+}
+
+/**
+ * Scans the lines of the `[Song]` section to check for provided metadata.
+ * @throws an exception if the resolution was not found.
+ */
+function getMetadata(lines: string[]): ChartData['metadata'] {
+  const metadata: ChartData['metadata'] = { resolution: NaN }
+
+  for (const line of lines) {
+    const [param, ...rest] = line.split('=').map(part => part.trim())
+    const rawValue = rest.join('=')
+    const value = rawValue.startsWith('"') ? rawValue.slice(1, -1).trim() : rawValue
+    if (value.length == 0) { continue }
+
+    switch(param) {
+      case 'Name': metadata.name = value; break
+      case 'Artist': metadata.artist = value; break
+      case 'Album': metadata.album = value; break
+      case 'Genre': metadata.genre = value; break
+      case 'Year': metadata.year = value.startsWith(', ') ? value.substr(2) : value; break // Blame GHTCP for this
+      case 'Charter': metadata.charter = value; break
+      case 'Offset': metadata.offset = Number(value); break
+      case 'Resolution': metadata.resolution = Number(value); break
+    }
+  }
+
+  if (isNaN(metadata.resolution) || metadata.resolution <= 0) {
+    throw 'Chart did not specify a "Resolution" value.'
+  }
+
+  if (metadata.offset !== undefined && isNaN(metadata.offset)) {
+    throw 'Chart did not specify a valid "Offset" value.'
+  }
+
+  return metadata
+}
+
+/**
+ * @returns the `TrackEvent` defined by each line in `lines`.
+ * Lines that are not track events are ignored, so one unrecognized line doesn't stop the rest of the chart from being scanned.
+ */
+function getTrackEvents(lines: string[]) {
+  const trackEvents: TrackEvent[] = []
+  for (const line of lines) {
+    const trackEvent = getTrackEvent(line)
+    if (trackEvent !== null) { trackEvents.push(trackEvent) }
+  }
+
+  return trackEvents
+}
+
+/**
+ * @returns the `TrackEvent` defined by `line` (e.g. "768 = N 2 192" -> { tick: 768, type: 'N', values: ['2', '192'] }),
+ * or `null` if `line` is not a valid track event.
+ */
+function getTrackEvent(line: string): TrackEvent | null {
+  const result = /^(\d+)\s*=\s*([A-Za-z]+)\s*(.*)$/.exec(line)
+  if (result === null) { return null }
+
+  const [, tick, type, rest] = result
+  return {
+    tick: Number(tick),
+    type: type.toUpperCase(),
+    values: type.toUpperCase() == 'E' ? [rest.trim()] : rest.trim().split(/\s+/)
+  }
+}
+
+/**
+ * @returns the `ChartEvent` for `trackEvent`, with any surrounding quotes removed from its text.
+ */
+function getChartEvent(trackEvent: TrackEvent): ChartEvent {
+  const text = trackEvent.values[0]
+  return { tick: trackEvent.tick, text: (text.startsWith('"') && text.endsWith('"') && text.length > 1 ? text.slice(1, -1) : text).trim() }
+}
+
+/**
+ * @returns a `ChartTrack` for `trackName` that contains `trackEvents`.
+ * @throws an exception if any of the notes or phrases are invalid.
+ */
+function getTrack(trackName: `${Instrument}.${Difficulty}`, trackEvents: TrackEvent[]): ChartTrack {
+  const [instrument, difficulty] = trackName.split('.') as [Instrument, Difficulty]
+  const track: ChartTrack = { instrument, difficulty, notes: [], starPower: [], soloSections: [], specialPhrases: [], events: [] }
+
+  for (const trackEvent of trackEvents) {
+    const [value, length] = [Number(trackEvent.values[0]), Number(trackEvent.values[1] ?? 0)]
+    switch (trackEvent.type) {
+      case 'N': {
+        if (isNaN(value) || isNaN(length)) { throw `Chart contains an invalid note at tick ${trackEvent.tick}.` }
+        track.notes.push({ tick: trackEvent.tick, value, length })
+        break
+      }
+      case 'S': {
+        if (isNaN(value) || isNaN(length)) { throw `Chart contains an invalid phrase at tick ${trackEvent.tick}.` }
+        if (value == STAR_POWER_PHRASE) {
+          track.starPower.push({ tick: trackEvent.tick, length })
+        } else {
+          track.specialPhrases.push({ tick: trackEvent.tick, type: value, length })
+        }
+        break
+      }
+      case 'E': track.events.push(getChartEvent(trackEvent)); break
+    }
+  }
+
+  track.notes.sort((a, b) => a.tick - b.tick)
+  track.soloSections = getSoloSections(track.events)
+  return track
+}
+
+/**
+ * @returns the solo sections defined by `events`. Each `solo` event is paired with the next `soloend` event.
+ * (`solo` events without a matching `soloend` are ignored)
+ */
+function getSoloSections(events: ChartEvent[]) {
+  const soloSections: ChartPhrase[] = []
+  let soloStart: number | null = null
+  for (const event of events) {
+    if (event.text == 'solo') {
+      soloStart ??= event.tick
+    } else if (event.text == 'soloend' && soloStart !== null) {
+      soloSections.push({ tick: soloStart, length: event.tick - soloStart })
+      soloStart = null
+    }
+  }
+
+  return soloSections
+}
+
+/**
+ * @returns the lyrics and lyric phrases in `events`, or `null` if there aren't any.
+ * Each `phrase_start` event is paired with the next `phrase_end` or `phrase_start` event.
+ * (A `phrase_start` event at the end of the chart continues until the last event)
+ */
+function getVocalTrack(events: ChartEvent[]): VocalTrack | null {
+  const phrases: ChartPhrase[] = []
+  const lyrics: ChartEvent[] = []
+  const sortedEvents = events.slice().sort((a, b) => a.tick - b.tick)
+  let phraseStart: number | null = null
+  for (const event of sortedEvents) {
+    if (event.text == 'phrase_start' || event.text == 'phrase_end') {
+      if (phraseStart !== null) {
+        phrases.push({ tick: phraseStart, length: event.tick - phraseStart })
+      }
+      phraseStart = event.text == 'phrase_start' ? event.tick : null
+    } else if (event.text.startsWith('lyric ')) {
+      lyrics.push({ tick: event.tick, text: event.text.substr(6).trim() })
+    }
+  }
+  if (phraseStart !== null) {
+    phrases.push({ tick: phraseStart, length: sortedEvents[sortedEvents.length - 1].tick - phraseStart })
+  }
+
+  if (phrases.length == 0 && lyrics.length == 0) { return null }
+  return { part: 'vocals', phrases, lyrics, notes: [] }
+}
@@ -0,0 +1,60 @@
+import { ChartModel, NotePosition } from '../ChartInterfaces'
+
+/**
+ * @returns a function that converts a tick in `chartModel` to the number of seconds since the start of the chart.
+ */
+export function getTimeConverter(chartModel: ChartModel) {
+  const resolution = chartModel.resolution
+  const tempos = chartModel.tempos
+  const regionStartTimes: number[] = []
+
+  let time = 0
+  for (let i = 0; i < tempos.length; i++) {
+    if (i > 0) {
+      time += (tempos[i].tick - tempos[i - 1].tick) * getSecondsPerTick(tempos[i - 1].bpm, resolution)
+    }
+    regionStartTimes.push(time)
+  }
+
+  return (tick: number) => {
+    let i = tempos.length - 1
+    while (i > 0 && tempos[i].tick > tick) { i-- }
+    return regionStartTimes[i] + (tick - tempos[i].tick) * getSecondsPerTick(tempos[i].bpm, resolution)
+  }
+}
+
+/**
+ * @returns the number of seconds in each tick at `bpm`. (Invalid BPM markers of zero or less are treated as having no duration)
+ */
+export function getSecondsPerTick(bpm: number, resolution: number) {
+  // the "Resolution" parameter is the number of ticks in each beat, so `bpm * resolution` is the ticks per minute
+  return bpm > 0 ? 60 / (bpm * resolution) : 0
+}
+
+/**
+ * @returns a function that converts a tick in `chartModel` to a `NotePosition`.
+ */
+export function getPositionConverter(chartModel: ChartModel) {
+  const getTime = getTimeConverter(chartModel)
+  return (tick: number): NotePosition => ({ tick, time: getTime(tick) })
+}
+
+/**
+ * @returns `seconds` formatted as a timestamp. (e.g. 83.25 -> "1:23.250")
+ */
+export function formatTimestamp(seconds: number) {
+  const minutes = Math.floor(seconds / 60)
+  const remainder = (seconds - minutes * 60).toFixed(3)
+  return `${minutes}:${remainder.padStart(6, '0')}`
+}
+
+/**
+ * @returns a description of the number of `positions` and the timestamp of the first one. (e.g. "3 notes (first at 1:23.250)")
+ */
+export function describePositions(positions: NotePosition[], noun = 'note') {
+  if (positions.length == 1) {
+    return `1 ${noun} (at ${formatTimestamp(positions[0].time)})`
+  } else {
+    return `${positions.length} ${noun}s (first at ${formatTimestamp(positions[0].time)})`
+  }
+}
@@ -0,0 +1,40 @@
+import { parentPort } from 'worker_threads'
+import { issueRegistry } from '../../Issues/IssueRegistry'
+import { readFolder } from '../../UtilFunctions'
+import { ChartFactory } from './ChartFactory'
+import { ChartWorkerRequest, ChartWorkerResponse } from './ChartWorkerPool'
+
+/**
+ * Scans each chart folder that is sent by `ChartWorkerPool`, and sends back the results.
+ */
+parentPort!.on('message', async (request: ChartWorkerRequest) => {
+  parentPort!.postMessage(await scanChart(request))
+})
+
+/**
+ * Removes the issues that were found from this worker's `issueRegistry`.
+ * @returns the scanned chart at `request.path`, and every issue that was found while it was scanned.
+ */
+async function scanChart(request: ChartWorkerRequest): Promise<ChartWorkerResponse> {
+  const response: ChartWorkerResponse = { chart: null, error: null, fatalError: null, issues: [] }
+  try {
+    const chartFolder = { path: request.path, files: await readFolder(request.path) }
+    const chart = await ChartFactory.construct(chartFolder, request.driveChart, request.sourceName)
+    response.chart = {
+      metadata: chart.chartMetadata,
+      chartData: chart.chartData,
+      audioStems: chart.audioStems,
+      lastModified: chart.lastModified?.toISOString() ?? null
+    }
+  } catch (err) {
+    if (typeof err === 'string') {
+      response.error = err
+    } else {
+      response.fatalError = err instanceof Error ? err.message : String(err)
+    }
+  }
+
+  response.issues = issueRegistry.getChartIssues(request.path).map(issue => ({ errorID: issue.errorID, description: issue.description }))
+  issueRegistry.clear() // The issues are added to the main thread's registry, so this worker doesn't need to keep them
+  return response
+}
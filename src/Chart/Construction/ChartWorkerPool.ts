@@ -0,0 +1,169 @@
+import { basename, extname, join } from 'path'
+import { Worker } from 'worker_threads'
+import { Chart } from '../Chart'
+import { AudioStem, ChartData, ChartMetadata } from '../ChartInterfaces'
+import { DriveChart } from '../../Drive/DriveInterfaces'
+import { issueRegistry } from '../../Issues/IssueRegistry'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+import { scanSettings } from '../../ScanSettings'
+import { ChartFolder } from './ChartsScanner'
+
+/** The message that is sent to a worker to scan one chart folder */
+export interface ChartWorkerRequest {
+  path: string
+  driveChart: DriveChart | undefined
+  sourceName: string
+}
+
+/** The message that a worker sends back after it scans a chart folder */
+export interface ChartWorkerResponse {
+  /** The scanned chart, or `null` if the chart was not able to be scanned */
+  chart: {
+    metadata: ChartMetadata
+    chartData: ChartData
+    audioStems: AudioStem[]
+    /** ISO 8601 */
+    lastModified: string | null
+  } | null
+  /** The string error description that was thrown if the chart was not able to be scanned */
+  error: string | null
+  /** The message of any other exception that was thrown while the chart was scanned */
+  fatalError: string | null
+  /** Every issue that was found while the chart was scanned */
+  issues: ChartDataIssue[]
+}
+
+interface ChartWorkerTask {
+  chartFolder: ChartFolder
+  request: ChartWorkerRequest
+  resolve: (chart: Chart) => void
+  reject: (err: unknown) => void
+}
+
+/**
+ * Scans chart folders in a fixed number of worker threads, so multiple charts can be parsed at the same time.
+ */
+export class ChartWorkerPool {
+
+  private idleWorkers: Worker[] = []
+  private busyWorkers = new Map<Worker, ChartWorkerTask>()
+  private queue: ChartWorkerTask[] = []
+  private isTerminated = false
+
+  constructor(readonly size: number) {
+    for (let i = 0; i < size; i++) {
+      this.idleWorkers.push(this.createWorker())
+    }
+  }
+
+  /**
+   * Scans `chartFolder` in the next available worker, and adds the issues it found to `issueRegistry`.
+   * If the worker crashes or throws an unexpected exception, a "scanFailed" issue is added and the worker is replaced.
+   * @returns a new `Chart` object from the chart files in `chartFolder`.
+   * @throws a string error description if the chart was not able to be scanned.
+   */
+  construct(chartFolder: ChartFolder, driveChart: DriveChart | undefined, sourceName: string) {
+    return new Promise<Chart>((resolve, reject) => {
+      this.queue.push({ chartFolder, request: { path: chartFolder.path, driveChart, sourceName }, resolve, reject })
+      this.startNextTask()
+    })
+  }
+
+  /**
+   * Stops every worker. Any tasks that haven't finished are rejected.
+   */
+  async terminate() {
+    this.isTerminated = true
+    for (const task of [...Array.from(this.busyWorkers.values()), ...this.queue]) {
+      task.reject(new Error('The chart workers were terminated.'))
+    }
+    this.queue = []
+    await Promise.all([...this.idleWorkers, ...Array.from(this.busyWorkers.keys())].map(worker => worker.terminate()))
+    this.idleWorkers = []
+    this.busyWorkers.clear()
+  }
+
+  /**
+   * Sends the next task in `this.queue` to an idle worker, if there are any.
+   */
+  private startNextTask() {
+    if (this.queue.length == 0 || this.idleWorkers.length == 0) { return }
+
+    const worker = this.idleWorkers.pop()!
+    const task = this.queue.shift()!
+    this.busyWorkers.set(worker, task)
+    worker.postMessage(task.request)
+  }
+
+  /**
+   * @returns a new worker that runs "ChartWorker".
+   */
+  private createWorker() {
+    const workerPath = join(__dirname, 'ChartWorker' + extname(__filename))
+    const workerOptions = { workerData: { scanSettings } }
+    const worker = extname(__filename) == '.ts' // Running with ts-node, so the worker needs to be compiled too
+      ? new Worker(`require('ts-node/register'); require(${JSON.stringify(workerPath)})`, { ...workerOptions, eval: true })
+      : new Worker(workerPath, workerOptions)
+
+    worker.on('message', (response: ChartWorkerResponse) => this.finishTask(worker, response))
+    worker.on('error', err => this.removeWorker(worker, err.message))
+    worker.on('exit', code => this.removeWorker(worker, `The chart worker stopped with exit code ${code}.`))
+    return worker
+  }
+
+  /**
+   * Removes `worker` from the pool after it crashed or stopped. If it was running a task, the task fails with `message`,
+   * and `worker` is replaced with a new worker. If there are no workers left, every queued task fails with `message`.
+   * (Does nothing if `worker` was already removed, or if the pool was terminated)
+   */
+  private removeWorker(worker: Worker, message: string) {
+    const task = this.busyWorkers.get(worker)
+    if (this.isTerminated || (task === undefined && !this.idleWorkers.includes(worker))) { return }
+
+    this.busyWorkers.delete(worker)
+    this.idleWorkers = this.idleWorkers.filter(idleWorker => idleWorker != worker)
+    if (task !== undefined) {
+      this.idleWorkers.push(this.createWorker())
+      this.failTask(task, message)
+    } else if (this.idleWorkers.length == 0 && this.busyWorkers.size == 0) {
+      this.queue.forEach(queuedTask => this.failTask(queuedTask, message))
+      this.queue = []
+    }
+    this.startNextTask()
+  }
+
+  /**
+   * Adds a "scanFailed" issue for `task` with `message`, then rejects it with a string error description.
+   */
+  private failTask(task: ChartWorkerTask, message: string) {
+    const { chartFolder, request } = task
+    issueRegistry.addIncompleteError(request.driveChart, request.sourceName, 'scanFailed', chartFolder.path,
+      `An unexpected error occurred while this chart was scanned: ${message}`)
+    task.reject(`"${basename(chartFolder.path)}" could not be scanned: ${message}`)
+  }
+
+  /**
+   * Resolves the task that `worker` was running with `response`, then gives `worker` the next task.
+   */
+  private finishTask(worker: Worker, response: ChartWorkerResponse) {
+    const task = this.busyWorkers.get(worker)!
+    this.busyWorkers.delete(worker)
+    this.idleWorkers.push(worker)
+    this.startNextTask()
+
+    const { chartFolder, request } = task
+    for (const issue of response.issues) {
+      issueRegistry.addIncompleteError(request.driveChart, request.sourceName, issue.errorID, chartFolder.path, issue.description)
+    }
+
+    if (response.chart !== null) {
+      const { metadata, chartData, audioStems, lastModified } = response.chart
+      task.resolve(new Chart(request.sourceName, chartFolder.path, chartFolder.files, request.driveChart, metadata, chartData, audioStems,
+        lastModified === null ? undefined : new Date(lastModified)))
+    } else if (response.error !== null) {
+      task.reject(response.error)
+    } else {
+      this.failTask(task, response.fatalError ?? 'Unknown error')
+    }
+  }
+}
@@ -1,28 +1,55 @@
 import * as fs from 'fs'
 import { join, parse, basename } from 'path'
+import { promisify } from 'util'
 import { ChartFactory } from './ChartFactory'
+import { ChartWorkerPool } from './ChartWorkerPool'
+import { scanDuplicates } from './DuplicateScanner'
+import { scanCache } from './ScanCache'
 import { Chart } from '../Chart'
-import { appearsToBeChartFolder } from '../ChartUtils'
-import { driveLink, readFolder } from '../../UtilFunctions'
+import { appearsToBeChartFolder, getJunkFileType, hasChartExtension } from '../ChartUtils'
+import { driveLink, lower, readFolder } from '../../UtilFunctions'
 import { DriveMap, DriveChart } from '../../Drive/DriveInterfaces'
-import { cyan, green, redBright } from 'cli-color'
+import { cyan, redBright } from 'cli-color'
 import { Progress } from '../../ProgressBar'
 import { scanSettings } from '../../ScanSettings'
+import { issueRegistry } from '../../Issues/IssueRegistry'
+import { ChartIssue } from '../../Issues/IssueInterfaces'
 
 export interface ChartFolder {
   path: string
   files: fs.Dirent[]
 }
 
+export interface ScanResult {
+
+  /** Every chart that was successfully scanned */
+  charts: Chart[]
+
+  /** Every issue that was found in the scanned charts (including the charts that failed to scan) */
+  issues: ChartIssue[]
+}
+
+type DownloadsMap = { [path: string]: DriveChart }
+
+const realpath = promisify(fs.realpath)
+const stat = promisify(fs.stat)
+
+/** The largest number of folders that are read at the same time while searching for chart folders */
+const MAX_FOLDER_READS = 16
+/** Chart folders that are more than this many folders below their source folder are too deeply nested */
+const MAX_FOLDER_DEPTH = 5
+
 /**
  * Scans all charts under `scanSettings.chartFolderPath`, grouped into sources.
  * Each source is a direct subfolder in `scanSettings.chartFolderPath` containing more than one chart.
  * One other source is also created for each chart folder in `scanSettings.chartFolderPath`.
  * If a chart or pack was downloaded, it is given the correspoinding `DriveChart` object.
- * @returns an array of `Chart` objects.
+ * Charts are parsed in `scanSettings.workerCount` worker threads at the same time.
+ * Charts that haven't changed since the last scan are loaded from `scanCache` instead of being parsed again.
+ * @returns an array of `Chart` objects, and every issue found in `issueRegistry`.
  */
-export async function scanCharts(downloadedCharts: DriveMap) {
-  const downloadsMap: { [path: string]: DriveChart } = {}
+export async function scanCharts(downloadedCharts: DriveMap): Promise<ScanResult> {
+  const downloadsMap: DownloadsMap = {}
   for (const driveID in downloadedCharts) {
     for (const filesHash in downloadedCharts[driveID]) {
       const downloadPath = downloadedCharts[driveID][filesHash].downloadPath
@@ -30,46 +57,70 @@ export async function scanCharts(downloadedCharts: DriveMap) {
     }
   }
 
-  const chartFolderMap: { [sourceName: string]: ChartFolder[] } = {}
   const sources = await getSources()
+  await scanCache.load()
+  const bar = new Progress('Scanning Charts')
+  const chartWorkers = scanSettings.workerCount > 1 ? new ChartWorkerPool(scanSettings.workerCount) : null
 
-  for (const sourceName in sources) {
-    const bar = new Progress(`Finding chart folders [${green(sourceName)}]`, undefined, true)
-    const sourceCharts: ChartFolder[] = []
-    bar.log(sourceName + '...');;;
-    for (const path of sources[sourceName]) {
-      sourceCharts.push(...await getChartFiles(path, bar))
+  // Chart folders are scanned as soon as they are found
+  const chartFolders = findAllChartFolders(sources, downloadsMap, bar)
+  const scannedCharts: Chart[] = []
+  const scanNextCharts = async () => {
+    for (let next = await chartFolders.next(); !next.done; next = await chartFolders.next()) {
+      const { chartFolder, sourceName } = next.value
+      bar.increment(basename(chartFolder.path))
+      const chart = await scanChart(chartFolder, sourceName, downloadsMap, chartWorkers, bar)
+      if (chart !== null) { scannedCharts.push(chart) }
     }
-    chartFolderMap[sourceName] = sourceCharts
-    bar.terminate()
   }
 
-  let totalCount = 0
-  for (const sourceName in chartFolderMap) {
-    totalCount += chartFolderMap[sourceName].length
+  try {
+    await Promise.all(Array.from({ length: chartWorkers?.size ?? 1 }, scanNextCharts))
+  } finally {
+    await chartWorkers?.terminate()
   }
-  const bar = new Progress('Scanning Charts', totalCount)
-  const scannedCharts: Chart[] = []
-  for (const sourceName in chartFolderMap) {
-    for (const chartFolder of chartFolderMap[sourceName]) {
-      bar.increment(basename(chartFolder.path))
-      const packPath = Object.keys(downloadsMap).find(path => chartFolder.path.startsWith(path))
-      const driveChart = packPath ? downloadsMap[packPath] : undefined // Defined if this chart was downloaded
-      try {
-        scannedCharts.push(await ChartFactory.construct(chartFolder, driveChart, sourceName))
-      } catch (err) {
-        if (typeof err === 'string') {
-          bar.log(`[${cyan(driveChart ? driveChart.source.ownerName : sourceName)}] ` + redBright('Failed to parse chart:'))
-          bar.log(err)
-          bar.log(driveChart ? driveLink(driveChart.folderID) : chartFolder.path + '\n')
-        } else {
-          throw err
-        }
-      }
+
+  scannedCharts.sort((a, b) => a.filepath.localeCompare(b.filepath)) // Folders are found in a different order each time
+  bar.terminate()
+  await scanCache.save()
+  scanDuplicates(scannedCharts)
+
+  return { charts: scannedCharts, issues: issueRegistry.getIssues() }
+}
+
+/**
+ * Scans `chartFolder` in `chartWorkers` (or in this thread if `chartWorkers` is `null`), unless it is in `scanCache`.
+ * @returns the scanned `Chart`, or `null` if the chart was not able to be scanned.
+ */
+async function scanChart(chartFolder: ChartFolder, sourceName: string, downloadsMap: DownloadsMap, chartWorkers: ChartWorkerPool | null, bar: Progress) {
+  const driveChart = getDriveChart(chartFolder.path, downloadsMap)
+  try {
+    const cachedChart = await scanCache.getChart(chartFolder, driveChart, sourceName)
+    if (cachedChart !== null) { return cachedChart }
+
+    const chart = chartWorkers !== null
+      ? await chartWorkers.construct(chartFolder, driveChart, sourceName)
+      : await ChartFactory.construct(chartFolder, driveChart, sourceName)
+    await scanCache.addChart(chartFolder, chart)
+    return chart
+  } catch (err) {
+    if (typeof err === 'string') {
+      bar.log(`[${cyan(driveChart ? driveChart.source.ownerName : sourceName)}] ` + redBright('Failed to parse chart:'))
+      bar.log(err)
+      bar.log(driveChart ? driveLink(driveChart.folderID) : chartFolder.path + '\n')
+      return null
+    } else {
+      throw err
     }
   }
+}
 
-  return scannedCharts
+/**
+ * @returns the `DriveChart` for the download that contains `path`, or `undefined` if `path` was not downloaded.
+ */
+function getDriveChart(path: string, downloadsMap: DownloadsMap) {
+  const packPath = Object.keys(downloadsMap).find(downloadPath => path.startsWith(downloadPath))
+  return packPath ? downloadsMap[packPath] : undefined
 }
 
 /**
@@ -80,15 +131,19 @@ async function getSources() {
 
   let files = await readFolder(scanSettings.chartFolderPath)
 
-  for (const file of files) {
+  for (const folderName of await getSubfolders(scanSettings.chartFolderPath, files)) { // (Files like the scan cache are skipped)
+    const sourcePath = join(scanSettings.chartFolderPath, folderName)
     try {
-      const source = await getSource(join(scanSettings.chartFolderPath, file.name))
+      const source = await getSource(sourcePath)
       if (source === null) {
-        (sources[basename(scanSettings.chartFolderPath)] ??= []).push(join(scanSettings.chartFolderPath, file.name))
+        (sources[basename(scanSettings.chartFolderPath)] ??= []).push(sourcePath)
       } else if (source !== undefined) {
-        sources[file.name] = source
+        sources[folderName] = source
       }
-    } catch (err) { }
+    } catch (err) {
+      const description = typeof err === 'string' ? err : `Error: Failed to read folder at [${sourcePath}]`
+      issueRegistry.addIncompleteError(undefined, folderName, 'unreadableFolder', sourcePath, description)
+    }
   }
 
   return sources
@@ -102,60 +157,163 @@ async function getSources() {
  */
 async function getSource(sourcePath: string) {
   let files = await readFolder(sourcePath)
+  const subfolders = await getSubfolders(sourcePath, files)
 
   if (appearsToBeChartFolder(files.map(file => parse(file.name).ext.substr(1)))) {
     return null
-  } else if (files.some(file => file.isDirectory())) {
-    return files.filter(file => file.isDirectory()).map(file => join(sourcePath, file.name))
+  } else if (subfolders.length > 0) {
+    return subfolders.map(subfolder => join(sourcePath, subfolder))
   } else {
     return undefined
   }
 }
 
 /**
- * @returns valid charts in `path` and all its subdirectories.
+ * Finds the chart folders in every source in `sources`. Folders that were already searched (through a symbolic link) are skipped.
+ * @returns an async generator that yields each chart folder as soon as it is found, along with the name of its source.
  */
-async function getChartFiles(path: string, bar: Progress) {
-  const chartFolders: ChartFolder[] = []
-
-  // Load folder contents
-  let files: fs.Dirent[]
-  try {
-    files = await readFolder(path)
-  } catch (err) {
-    return []
+async function* findAllChartFolders(sources: { [sourceName: string]: string[] }, downloadsMap: DownloadsMap, bar: Progress) {
+  const searchedFolders = new Set<string>()
+  for (const sourceName in sources) {
+    for await (const chartFolder of findChartFolders(sources[sourceName], sourceName, downloadsMap, searchedFolders, bar)) {
+      yield { chartFolder, sourceName }
+    }
   }
+}
 
-  // Check for empty folder
-  if (files.length == 0) {
-    // TODO: addIncompleteError(driveChart, 'emptyFolder', path, 'There are no files in this folder.')
-    return []
+/**
+ * Searches `paths` and all their subfolders for chart folders, reading at most `MAX_FOLDER_READS` folders at the same time.
+ * Folder structure issues are added to `issueRegistry`. (Chart folders without audio are reported by `ChartFactory` as "noAudio")
+ * @param searchedFolders The real paths of every folder that has been searched. Folders in this set are not searched again.
+ * @returns an async generator that yields each chart folder as soon as it is found.
+ */
+async function* findChartFolders(paths: string[], sourceName: string, downloadsMap: DownloadsMap, searchedFolders: Set<string>, bar: Progress) {
+  const addError = (path: string, errorID: string, description: string) => {
+    issueRegistry.addIncompleteError(getDriveChart(path, downloadsMap), sourceName, errorID, path, description)
   }
 
-  // Determine folder structure
-  let [hasFolders, hasFiles] = [false, false]
-  const isChartFolder = appearsToBeChartFolder(files.map(file => parse(file.name).ext.substr(1)))
-  const promises: Promise<ChartFolder[]>[] = []
-  for (const file of files) {
-    if (file.isDirectory()) {
-      hasFolders = true
-      if (file.name != '__MACOSX') { // Apple should follow the principle of least astonishment (smh)
-        promises.push(getChartFiles(join(path, file.name), bar))
+  const unreadFolders: UnreadFolder[] = paths.map(path => ({ path, depth: 0, parentChartPath: null }))
+  const folderReads = new Map<string, Promise<{ folder: UnreadFolder, contents: FolderContents }>>()
+  while (unreadFolders.length > 0 || folderReads.size > 0) {
+    while (unreadFolders.length > 0 && folderReads.size < MAX_FOLDER_READS) {
+      const folder = unreadFolders.pop()!
+      folderReads.set(folder.path, readChartFolder(folder.path, searchedFolders).then(contents => ({ folder, contents })))
+    }
+
+    const { folder, contents } = await Promise.race(Array.from(folderReads.values()))
+    const { path, files, subfolders, error } = contents
+    folderReads.delete(path)
+
+    if (error !== null) {
+      bar.log(redBright(error))
+      addError(path, 'unreadableFolder', error)
+      continue
+    } else if (files === null) {
+      addError(path, 'linkedFolder', `This folder is a link to a folder that was already scanned.`)
+      continue
+    }
+
+    // Check for empty folder
+    if (files.length == 0) {
+      addError(path, 'emptyFolder', 'There are no files in this folder.')
+      continue
+    }
+
+    for (const file of files.filter(file => !subfolders.includes(file.name))) {
+      const junkFileType = getJunkFileType(file.name)
+      if (junkFileType) {
+        addError(path, `${junkFileType.errorID}:${file.name}`, `"${file.name}" ${junkFileType.description}.`)
       }
-    } else {
-      hasFiles = true
+    }
+
+    const isChartFolder = appearsToBeChartFolder(files.map(file => parse(file.name).ext.substr(1)))
+    const hasChart = files.some(file => hasChartExtension(file.name))
+    for (const subfolder of subfolders) {
+      if (subfolder != '__MACOSX') { // Apple should follow the principle of least astonishment (smh)
+        unreadFolders.push({ path: join(path, subfolder), depth: folder.depth + 1, parentChartPath: isChartFolder && hasChart ? path : folder.parentChartPath })
+      } else {
+        addError(path, 'macosxFolder', `This folder contains a "__MACOSX" folder.`)
+      }
+    }
+
+    if (isChartFolder) {
+      if (!hasChart) {
+        addError(path, 'audioWithoutChart', `This folder has audio files, but no chart file.`)
+        continue // This is not a chart
+      }
+
+      if (subfolders.length > 0 && subfolders.length < files.length) {
+        addError(path, 'filesFolders', `There are subfolders in this chart folder.`)
+      }
+      if (folder.parentChartPath !== null) {
+        addError(path, 'nestedChart', `This chart folder is inside another chart folder: [${folder.parentChartPath}]`)
+      }
+      if (folder.depth > MAX_FOLDER_DEPTH) {
+        addError(path, 'deepFolder', `This chart folder is ${folder.depth} folders deep in its source. (it should be ${MAX_FOLDER_DEPTH} or fewer)`)
+      }
+      yield { path, files }
     }
   }
-  chartFolders.push(...(await Promise.all(promises)).flat())
+}
 
-  if (isChartFolder) {
-    if (hasFolders && hasFiles) {
-      // TODO: addIncompleteError(driveChart, 'filesFolders', path, `There are subfolders in this chart folder.`)
+interface UnreadFolder {
+  path: string
+  /** The number of folders between `path` and its source folder */
+  depth: number
+  /** The path of the chart folder that contains `path`, or `null` if it isn't inside a chart folder */
+  parentChartPath: string | null
+}
+
+interface FolderContents {
+  path: string
+  /** The files and folders in `path`, or `null` if `path` was already searched */
+  files: fs.Dirent[] | null
+  /** The names of the folders in `path` (including symbolic links to folders) */
+  subfolders: string[]
+  /** A description of the error that prevented `path` from being read, or `null` if it was read successfully */
+  error: string | null
+}
+
+/**
+ * Reads the folder at `path`, unless its real path is already in `searchedFolders`. (so symbolic link loops are only searched once)
+ * @returns the contents of the folder at `path`.
+ */
+async function readChartFolder(path: string, searchedFolders: Set<string>): Promise<FolderContents> {
+  try {
+    const folderRealPath = await realpath(path)
+    if (searchedFolders.has(folderRealPath)) {
+      return { path, files: null, subfolders: [], error: null }
+    }
+    searchedFolders.add(folderRealPath)
+
+    const files = await readFolder(path)
+    return { path, files, subfolders: await getSubfolders(path, files), error: null }
+  } catch (err) {
+    return { path, files: null, subfolders: [], error: typeof err === 'string' ? err : `Error: Failed to read folder at [${path}] (${(err as NodeJS.ErrnoException).code ?? err})` }
+  }
+}
+
+/**
+ * @returns the names of the folders in `files`, which are the contents of the folder at `path`. (including symbolic links to folders)
+ */
+async function getSubfolders(path: string, files: fs.Dirent[]) {
+  const subfolders: string[] = []
+  for (const file of files) {
+    if (file.isDirectory() || (file.isSymbolicLink() && await isFolder(join(path, file.name)))) {
+      subfolders.push(file.name)
     }
-    chartFolders.push({ path, files })
-    bar.log(basename(path));;;
-    bar.increment(basename(path))
   }
 
-  return chartFolders
+  return subfolders
+}
+
+/**
+ * @returns `true` if `path` is a folder (or a symbolic link to a folder).
+ */
+async function isFolder(path: string) {
+  try {
+    return (await stat(path)).isDirectory()
+  } catch (err) {
+    return false // Broken symbolic link
+  }
 }
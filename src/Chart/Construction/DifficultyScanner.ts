@@ -0,0 +1,128 @@
+import { ChartData, ChartModel, ChartTrack, DifficultiesData, Difficulty, Instrument } from '../ChartInterfaces'
+import { getPlayedNotes, getTrackName } from '../ChartUtils'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+
+/** Difficulties from lowest to highest */
+const difficultyOrder: Difficulty[] = ['e', 'm', 'h', 'x']
+/** Tracks with fewer notes than this are ignored (the same as in `getNoteCounts`) */
+const MIN_NOTE_COUNT = 10
+
+/** The names of the .chart note numbers for each type of instrument */
+const fiveFretNoteNames: { [value: number]: string } = { 0: 'green', 1: 'red', 2: 'yellow', 3: 'blue', 4: 'orange', 7: 'open' }
+const ghlNoteNames: { [value: number]: string } = { 0: 'white 1', 1: 'white 2', 2: 'white 3', 3: 'black 1', 4: 'black 2', 8: 'black 3', 7: 'open' }
+const drumNoteNames: { [value: number]: string } = { 0: 'kick', 1: 'red', 2: 'yellow', 3: 'blue', 4: 'orange', 5: 'green', 32: 'Expert+ kick' }
+
+/**
+ * Compares the difficulties of each instrument in `chartModel`.
+ * @returns a `DifficultiesData` object for each instrument that has any problems between its difficulties.
+ */
+export function scanDifficulties(chartModel: ChartModel): DifficultiesData[] {
+  const instruments = Array.from(new Set(chartModel.tracks.map(track => track.instrument)))
+
+  const difficulties: DifficultiesData[] = []
+  for (const instrument of instruments) {
+    const tracks: { [difficulty in Difficulty]?: ChartTrack } = {}
+    const noteCounts: DifficultiesData['noteCounts'] = {}
+    for (const track of chartModel.tracks.filter(track => track.instrument == instrument)) {
+      const noteCount = new Set(getPlayedNotes(track).map(note => note.tick)).size
+      if (noteCount >= MIN_NOTE_COUNT) {
+        tracks[track.difficulty] = track
+        noteCounts[track.difficulty] = noteCount
+      }
+    }
+
+    const charted = difficultyOrder.filter(difficulty => tracks[difficulty] !== undefined)
+    if (charted.length == 0) { continue }
+
+    const expertTrack = tracks['x']
+    const lowerTracks = charted.filter(difficulty => difficulty != 'x').map(difficulty => tracks[difficulty]!)
+    const instrumentDifficulties: DifficultiesData = {
+      instrument,
+      noteCounts,
+      invertedDifficulties: charted.slice(1)
+        .map((higher, i) => ({ lower: charted[i], higher }))
+        .filter(({ lower, higher }) => noteCounts[lower]! > noteCounts[higher]!),
+      missingDifficulties: difficultyOrder
+        .slice(difficultyOrder.indexOf(charted[0]), difficultyOrder.indexOf(charted[charted.length - 1]))
+        .filter(difficulty => !charted.includes(difficulty)),
+      expertCopies: expertTrack === undefined ? [] : lowerTracks
+        .filter(track => getNotesText(track) == getNotesText(expertTrack))
+        .map(track => track.difficulty),
+      extraNoteTypes: expertTrack === undefined ? [] : lowerTracks
+        .map(track => ({ difficulty: track.difficulty, values: getExtraNoteValues(track, expertTrack) }))
+        .filter(({ values }) => values.length > 0)
+    }
+
+    if (instrumentDifficulties.invertedDifficulties.length > 0 || instrumentDifficulties.missingDifficulties.length > 0
+      || instrumentDifficulties.expertCopies.length > 0 || instrumentDifficulties.extraNoteTypes.length > 0) {
+      difficulties.push(instrumentDifficulties)
+    }
+  }
+
+  return difficulties
+}
+
+/**
+ * @returns the issues found in `chartData.difficulties`.
+ */
+export function getDifficultyIssues(chartData: ChartData): ChartDataIssue[] {
+  const issues: ChartDataIssue[] = []
+  for (const difficulties of chartData.difficulties) {
+    const instrument = difficulties.instrument
+    for (const { lower, higher } of difficulties.invertedDifficulties) {
+      issues.push({
+        errorID: `invertedDifficulty:${instrument}.${lower}`,
+        description: `${getTrackName(instrument, lower)} has more notes (${difficulties.noteCounts[lower]}) `
+          + `than ${getTrackName(instrument, higher)} (${difficulties.noteCounts[higher]}).`
+      })
+    }
+    for (const difficulty of difficulties.missingDifficulties) {
+      issues.push({
+        errorID: `missingDifficulty:${instrument}.${difficulty}`,
+        description: `${getTrackName(instrument, difficulty)} is missing, but there are higher and lower difficulties for this instrument.`
+      })
+    }
+    for (const difficulty of difficulties.expertCopies) {
+      issues.push({
+        errorID: `copiedExpert:${instrument}.${difficulty}`,
+        description: `${getTrackName(instrument, difficulty)} is an exact copy of ${getTrackName(instrument, 'x')}.`
+      })
+    }
+    for (const { difficulty, values } of difficulties.extraNoteTypes) {
+      issues.push({
+        errorID: `extraNoteTypes:${instrument}.${difficulty}`,
+        description: `${getTrackName(instrument, difficulty)} has ${values.map(value => getNoteName(instrument, value)).join(', ')} notes, `
+          + `but ${getTrackName(instrument, 'x')} doesn't.`
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * @returns a string containing the played notes in `track`. Tracks with the same notes have the same string.
+ */
+function getNotesText(track: ChartTrack) {
+  return getPlayedNotes(track)
+    .sort((a, b) => a.tick - b.tick || a.value - b.value)
+    .map(note => `${note.tick}:${note.value}`)
+    .join()
+}
+
+/**
+ * @returns the .chart note numbers of the played notes in `track` that aren't used in `expertTrack`.
+ */
+function getExtraNoteValues(track: ChartTrack, expertTrack: ChartTrack) {
+  const expertValues = new Set(getPlayedNotes(expertTrack).map(note => note.value))
+  const values = new Set(getPlayedNotes(track).map(note => note.value))
+  return Array.from(values).filter(value => !expertValues.has(value)).sort((a, b) => a - b)
+}
+
+/**
+ * @returns the name of the note with .chart note number `value` on `instrument`. (e.g. "orange" or "open")
+ */
+function getNoteName(instrument: Instrument, value: number) {
+  const noteNames = instrument == 'drums' ? drumNoteNames : instrument == 'guitarghl' || instrument == 'bassghl' ? ghlNoteNames : fiveFretNoteNames
+  return noteNames[value] ?? `note ${value}`
+}
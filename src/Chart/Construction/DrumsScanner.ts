@@ -0,0 +1,105 @@
+import { ChartData, ChartModel, ChartNote, DrumsData } from '../ChartInterfaces'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+import { describePositions, getPositionConverter } from './ChartTiming'
+
+/** .chart drum note numbers */
+const KICK = 0
+const FIVE_LANE_GREEN = 5
+const EXPERT_PLUS_KICK = 32
+/** .chart cymbal marker note numbers, and the lane that each one applies to */
+const cymbalMarkers: { [marker: number]: number } = { 66: 2, 67: 3, 68: 4 }
+
+/**
+ * Scans the drums tracks in `chartModel` to check for pro drums, Expert+ kicks, five-lane notes, and drum phrases.
+ * @returns a `DrumsData` object, or `null` if there are no drums tracks.
+ */
+export function scanDrums(chartModel: ChartModel): DrumsData | null {
+  const drumTracks = chartModel.tracks.filter(track => track.instrument == 'drums')
+  if (drumTracks.length == 0) { return null }
+
+  const cymbalCounts: DrumsData['cymbalCounts'] = {}
+  const orphanedCymbalMarkers: number[] = []
+  const doubledKicks: number[] = []
+  const fiveLaneNotes: number[] = []
+  let hasExpertPlusKick = false
+
+  for (const track of drumTracks) {
+    const notesByTick = groupByTick(track.notes)
+    for (const tick in notesByTick) {
+      const values = notesByTick[tick].map(note => note.value)
+      for (const value of values) {
+        if (cymbalMarkers[value] !== undefined) {
+          cymbalCounts[track.difficulty] = (cymbalCounts[track.difficulty] ?? 0) + 1
+          if (!values.includes(cymbalMarkers[value])) { orphanedCymbalMarkers.push(Number(tick)) }
+        }
+      }
+      if (values.includes(FIVE_LANE_GREEN)) { fiveLaneNotes.push(Number(tick)) }
+      if (values.includes(EXPERT_PLUS_KICK)) {
+        hasExpertPlusKick = true
+        if (values.includes(KICK)) { doubledKicks.push(Number(tick)) }
+      }
+    }
+  }
+
+  const hasProDrums = Object.keys(cymbalCounts).length > 0
+  const getPosition = getPositionConverter(chartModel)
+  return {
+    hasProDrums,
+    cymbalCounts,
+    hasExpertPlusKick,
+    laneCount: fiveLaneNotes.length > 0 ? 5 : 4,
+    hasActivationLanes: drumTracks.some(track => track.specialPhrases.some(phrase => phrase.type == 64)),
+    hasRolls: drumTracks.some(track => track.specialPhrases.some(phrase => phrase.type == 65 || phrase.type == 66)),
+    fiveLaneNotesInProChart: hasProDrums ? unique(fiveLaneNotes).map(getPosition) : [],
+    orphanedCymbalMarkers: unique(orphanedCymbalMarkers).map(getPosition),
+    doubledKicks: unique(doubledKicks).map(getPosition)
+  }
+}
+
+/**
+ * @returns the issues found in `chartData.drums`.
+ */
+export function getDrumsIssues(chartData: ChartData): ChartDataIssue[] {
+  const drums = chartData.drums
+  if (drums === null) { return [] }
+
+  const issues: ChartDataIssue[] = []
+  if (drums.fiveLaneNotesInProChart.length > 0) {
+    issues.push({
+      errorID: 'drumsFiveLaneInProChart',
+      description: `This chart has cymbal markers (four-lane pro drums), but the five-lane green lane is used by ${describePositions(drums.fiveLaneNotesInProChart)}.`
+    })
+  }
+  if (drums.orphanedCymbalMarkers.length > 0) {
+    issues.push({
+      errorID: 'drumsOrphanedCymbal',
+      description: `The drums track has ${describePositions(drums.orphanedCymbalMarkers, 'cymbal marker')} without a note in the same lane.`
+    })
+  }
+  if (drums.doubledKicks.length > 0) {
+    issues.push({
+      errorID: 'drumsDoubledKick',
+      description: `The drums track has ${describePositions(drums.doubledKicks, 'Expert+ kick')} on the same tick as a regular kick.`
+    })
+  }
+
+  return issues
+}
+
+/**
+ * @returns `notes` grouped into arrays of notes that are on the same tick.
+ */
+function groupByTick(notes: ChartNote[]) {
+  const groups: { [tick: number]: ChartNote[] } = {}
+  for (const note of notes) {
+    (groups[note.tick] ??= []).push(note)
+  }
+  return groups
+}
+
+/**
+ * @returns `values` without duplicates, sorted in ascending order.
+ */
+function unique(values: number[]) {
+  return Array.from(new Set(values)).sort((a, b) => a - b)
+}
@@ -0,0 +1,63 @@
+import { createHash } from 'crypto'
+import { Chart } from '../Chart'
+import { CMetaStringKey } from '../ChartInterfaces'
+import { issueRegistry } from '../../Issues/IssueRegistry'
+import { lower } from '../../UtilFunctions'
+
+/** The metadata fields that are compared between near-duplicate charts */
+const comparedFields: CMetaStringKey[] = ['name', 'artist', 'album', 'genre', 'year', 'charter']
+
+/**
+ * Compares the notes in every chart in `charts` to find charts that are in the library more than once.
+ * Adds an issue to `issueRegistry` for each chart that is a duplicate of an earlier chart in `charts`:
+ * - "duplicateChart" if it has the same chart file and song as a chart in the same source.
+ * - "duplicateChartInOtherSource" if it has the same chart file and song as a chart in a different source.
+ * - "nearDuplicateChart" if it has the same notes, but the chart file or metadata is different.
+ */
+export function scanDuplicates(charts: Chart[]) {
+  const chartGroups: { [notesHash: string]: Chart[] } = {}
+  for (const chart of charts) {
+    (chartGroups[getNotesHash(chart)] ??= []).push(chart)
+  }
+
+  for (const [original, ...duplicates] of Object.values(chartGroups)) {
+    for (const duplicate of duplicates) {
+      const { artist, name, charter } = original.chartMetadata
+      const originalText = `"${artist}" - "${name}" (${charter}) at "${original.filepath}"`
+      const differentFields = comparedFields.filter(field => normalize(duplicate.chartMetadata[field]) != normalize(original.chartMetadata[field]))
+      const isSameSong = !differentFields.includes('name') && !differentFields.includes('artist')
+
+      if (duplicate.chartData.chartHash == original.chartData.chartHash && isSameSong) {
+        if (duplicate.sourceName == original.sourceName) {
+          issueRegistry.addError(duplicate, 'duplicateChart', `This chart is a duplicate of ${originalText}.`)
+        } else {
+          issueRegistry.addError(duplicate, 'duplicateChartInOtherSource',
+            `This chart is a duplicate of ${originalText} from the "${original.sourceName}" source.`)
+        }
+      } else {
+        issueRegistry.addError(duplicate, 'nearDuplicateChart', `This chart has the same notes as ${originalText}, but `
+          + (differentFields.length > 0 ? `has a different ${differentFields.join(', ')}.` : `has a different chart file.`))
+      }
+    }
+  }
+}
+
+/**
+ * @returns a hash of the notes in every track of `chart`, or the hash of its chart file if it doesn't have any notes.
+ */
+function getNotesHash(chart: Chart) {
+  const trackHashes = chart.chartData.trackHashes
+  const trackList = Object.keys(trackHashes)
+    .flatMap(instrument => Object.keys(trackHashes[instrument]).map(difficulty => `${instrument}.${difficulty}:${trackHashes[instrument][difficulty]}`))
+    .sort()
+  if (trackList.length == 0) { return chart.chartData.chartHash }
+
+  return createHash('md5').update(trackList.join()).digest('hex')
+}
+
+/**
+ * @returns `text` in lowercase, without whitespace or punctuation. (so "AC/DC" and "acdc" are the same)
+ */
+function normalize(text: string) {
+  return lower(text).replace(/[\s!-/:-@[-`{-~]+/g, '')
+}
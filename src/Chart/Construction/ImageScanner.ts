@@ -0,0 +1,160 @@
+import * as fs from 'fs'
+import { join, parse } from 'path'
+import { promisify } from 'util'
+import sharp from 'sharp'
+import { hasAlbumName, hasBackgroundName } from '../ChartUtils'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+import { lower } from '../../UtilFunctions'
+import { ChartFolder } from './ChartsScanner'
+
+const stat = promisify(fs.stat)
+
+/** Album art smaller than this (in pixels) looks blurry in CH */
+const MIN_ALBUM_SIZE = 500
+/** The recommended album art sizes (in pixels) */
+const albumSizes = [500, 512]
+/** Backgrounds should be between 720p and 4K */
+const MIN_BACKGROUND_SIZE = { width: 1280, height: 720 }
+const MAX_BACKGROUND_SIZE = { width: 3840, height: 2160 }
+/** Image files larger than this (in bytes) take too long to load */
+const MAX_ALBUM_FILE_SIZE = 1024 * 1024
+const MAX_BACKGROUND_FILE_SIZE = 5 * 1024 * 1024
+
+/** The format that sharp detects for each image file extension */
+const extensionFormats: { [extension: string]: string } = { '.jpg': 'jpeg', '.jpeg': 'jpeg', '.png': 'png' }
+
+/**
+ * Reads the headers of the album art and background images in `chartFolder`. The images are not decoded.
+ * @returns the issues found in those images, and in image names that CH ignores.
+ */
+export async function getImageIssues(chartFolder: ChartFolder): Promise<ChartDataIssue[]> {
+  const issues: ChartDataIssue[] = []
+  for (const file of chartFolder.files.filter(file => file.isFile())) {
+    const { name, ext } = parse(lower(file.name))
+    if (hasAlbumName(file.name)) {
+      issues.push(...await getAlbumIssues(join(chartFolder.path, file.name)))
+    } else if (hasBackgroundName(file.name)) {
+      issues.push(...await getBackgroundIssues(join(chartFolder.path, file.name)))
+    } else if ((name == 'album' || name.startsWith('background')) && ext in extensionFormats) {
+      issues.push({
+        errorID: 'ignoredImageName:' + file.name,
+        description: `"${file.name}" is ignored by CH; it should be named "${name}${ext == '.png' ? '.png' : '.jpg'}".`
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * @returns the issues found in the album art at `filepath`.
+ */
+async function getAlbumIssues(filepath: string) {
+  const filename = parse(filepath).base
+  const image = await getImageProperties(filepath)
+  if (image === null) {
+    return [{ errorID: 'badAlbum:' + filename, description: `Failed to parse "${filename}"; it may not be formatted correctly.` }]
+  }
+
+  const issues = getFormatIssues(filename, image, MAX_ALBUM_FILE_SIZE)
+  const { width, height } = image
+  if (width != height) {
+    issues.push({ errorID: 'albumNotSquare:' + filename, description: `This chart's album art is not square. (${width}x${height})` })
+  }
+  if (Math.min(width, height) < MIN_ALBUM_SIZE) {
+    issues.push({
+      errorID: 'albumTooSmall:' + filename,
+      description: `This chart's album art is smaller than ${MIN_ALBUM_SIZE}x${MIN_ALBUM_SIZE}. (${width}x${height})`
+    })
+  } else if (width != height || !albumSizes.includes(width)) {
+    issues.push({ errorID: 'albumSize:' + filename, description: `This chart's album art is not 500x500 or 512x512. (${width}x${height})` })
+  }
+
+  return issues
+}
+
+/**
+ * @returns the issues found in the background image at `filepath`.
+ */
+async function getBackgroundIssues(filepath: string) {
+  const filename = parse(filepath).base
+  const image = await getImageProperties(filepath)
+  if (image === null) {
+    return [{ errorID: 'badBackground:' + filename, description: `Failed to parse "${filename}"; it may not be formatted correctly.` }]
+  }
+
+  const issues = getFormatIssues(filename, image, MAX_BACKGROUND_FILE_SIZE)
+  const { width, height } = image
+  if (width < MIN_BACKGROUND_SIZE.width || height < MIN_BACKGROUND_SIZE.height) {
+    issues.push({
+      errorID: 'backgroundResolution:' + filename,
+      description: `"${filename}" is smaller than ${MIN_BACKGROUND_SIZE.width}x${MIN_BACKGROUND_SIZE.height}. (${width}x${height})`
+    })
+  } else if (width > MAX_BACKGROUND_SIZE.width || height > MAX_BACKGROUND_SIZE.height) {
+    issues.push({
+      errorID: 'backgroundResolution:' + filename,
+      description: `"${filename}" is larger than ${MAX_BACKGROUND_SIZE.width}x${MAX_BACKGROUND_SIZE.height}. (${width}x${height})`
+    })
+  }
+
+  return issues
+}
+
+/**
+ * @returns the issues with the file format of the image `filename`, which has the properties in `image`.
+ */
+function getFormatIssues(filename: string, image: ImageProperties, maxFileSize: number) {
+  const issues: ChartDataIssue[] = []
+  const expectedFormat = extensionFormats[parse(lower(filename)).ext]
+  if (image.format != expectedFormat) {
+    issues.push({
+      errorID: 'imageFormatMismatch:' + filename,
+      description: `"${filename}" is actually a ${image.format.toUpperCase()} image, so CH may not be able to load it.`
+    })
+  }
+  if (image.isProgressive && image.format == 'jpeg') {
+    issues.push({ errorID: 'progressiveJpeg:' + filename, description: `"${filename}" is a progressive JPEG, which CH can't load.` })
+  }
+  if (image.space == 'cmyk') {
+    issues.push({ errorID: 'cmykImage:' + filename, description: `"${filename}" uses the CMYK color space, so its colors will be wrong in CH.` })
+  }
+  if (image.fileSize > maxFileSize) {
+    issues.push({
+      errorID: 'largeImageFile:' + filename,
+      description: `"${filename}" is ${(image.fileSize / 1024 / 1024).toFixed(1)} MB, which is larger than ${maxFileSize / 1024 / 1024} MB.`
+    })
+  }
+
+  return issues
+}
+
+interface ImageProperties {
+  format: string
+  width: number
+  height: number
+  space: string
+  isProgressive: boolean
+  /** The size of the image file (in bytes) */
+  fileSize: number
+}
+
+/**
+ * @returns the properties of the image at `filepath`, or `null` if it could not be read.
+ */
+async function getImageProperties(filepath: string): Promise<ImageProperties | null> {
+  try {
+    const metadata = await sharp(filepath).metadata()
+    if (metadata.format === undefined || metadata.width === undefined || metadata.height === undefined) { return null }
+
+    return {
+      format: metadata.format,
+      width: metadata.width,
+      height: metadata.height,
+      space: metadata.space ?? 'srgb',
+      isProgressive: metadata.isProgressive ?? false,
+      fileSize: (await stat(filepath)).size
+    }
+  } catch (err) {
+    return null
+  }
+}
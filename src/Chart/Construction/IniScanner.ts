@@ -7,6 +7,10 @@ import { DriveChart } from '../../Drive/DriveInterfaces'
 import { CInputMetaBooleanKey, CInputMetaNumberKey, CInputMetaStringKey, CMetaBooleanKey, CMetaNumberKey, CMetaStringKey, defaultMetadata } from '../ChartInterfaces'
 import { redBright } from 'cli-color'
 import { ChartFolder } from './ChartsScanner'
+import { issueRegistry } from '../../Issues/IssueRegistry'
+
+/** The text values in a song.ini file, before any style tags were removed */
+export type IniStrings = { [field in CMetaStringKey]?: string }
 
 /**
  * Constructs a `ChartMetadata` object.
@@ -19,25 +23,32 @@ export class IniScanner {
   /** Contains the metadata from the song.ini file */
   metadata = Object.assign({}, defaultMetadata)
 
+  /** Contains the text values from the song.ini file that were stored in `this.metadata`, before any style tags were removed */
+  iniStrings: IniStrings = {}
+
   /**
-   * @returns a `ChartMetadata` object for the the chart in `chartFolder` (or `null` if the operation failed).
+   * @returns a `ChartMetadata` object for the the chart in `chartFolder`, and the text values in its song.ini file
+   * before any style tags were removed (or `null` if the operation failed).
    */
-  static construct(chartFolder: ChartFolder, driveChart: DriveChart | undefined) {
+  static construct(chartFolder: ChartFolder, driveChart: DriveChart | undefined, sourceName: string) {
     try {
-      const iniScanner = new IniScanner(chartFolder, driveChart)
+      const iniScanner = new IniScanner(chartFolder, driveChart, sourceName)
       iniScanner.setChartMetadata()
-      return iniScanner.metadata
+      return { metadata: iniScanner.metadata, iniStrings: iniScanner.iniStrings }
     } catch (err) {
       return null
     }
   }
 
-  private constructor(private chartFolder: ChartFolder, private driveChart: DriveChart | undefined) {
+  private constructor(private chartFolder: ChartFolder, private driveChart: DriveChart | undefined, private sourceName: string) {
     this.iniFile = this.getIniAtFilepath(this.getIniFile())
   }
 
+  /**
+   * Adds an error for this chart with `errorID` and `description`.
+   */
   private addError(errorID: string, description: string) {
-    // TODO: addIncompleteError(this.driveChart, errorID, this.filepath, description)
+    issueRegistry.addIncompleteError(this.driveChart, this.sourceName, errorID, this.chartFolder.path, description)
   }
 
   /**
@@ -54,7 +65,7 @@ export class IniScanner {
         iniCount++
         lastIniPath = join(this.chartFolder.path, file.name)
         if (!hasIniName(file.name)) {
-          this.addError('invalidIni', `"${file.name}" is not named "song.ini"`)
+          this.addError('invalidIni:' + file.name, `"${file.name}" is not named "song.ini"`)
         } else {
           bestIniPath = join(this.chartFolder.path, file.name)
         }
@@ -114,6 +125,28 @@ export class IniScanner {
 
     this.extractIniMetadata()
     this.extractIniMetadata('ignored_') // Any ignored_ fields will be used for md5 calculation (CH ignores them, not this code)
+    this.checkIgnoredDuplicates()
+    this.checkFretsField()
+  }
+
+  /**
+   * Adds an error if the charter is stored in the legacy `frets` field.
+   */
+  private checkFretsField() {
+    if (this.iniFile.song.frets !== undefined) {
+      this.addError('fretsField', `"song.ini" uses "frets" instead of "charter" to store the charter name.`)
+    }
+  }
+
+  /**
+   * Adds an error for each `ignored_` field that has the same value as the field it was ignoring.
+   */
+  private checkIgnoredDuplicates() {
+    for (const key of Object.keys(this.iniFile.song)) {
+      if (key.startsWith('ignored_') && this.iniFile.song[key] === this.iniFile.song[key.substr('ignored_'.length)]) {
+        this.addError('ignoredDuplicate:' + key, `"${key}" in "song.ini" is a duplicate of "${key.substr('ignored_'.length)}".`)
+      }
+    }
   }
 
   /**
@@ -126,7 +159,12 @@ export class IniScanner {
     const strings = ['name', 'artist', 'album', 'genre', 'year', ['frets', 'charter'], 'icon', 'loading_phrase'] as const
     this.extractMetadataField<CInputMetaStringKey, CMetaStringKey>(this.extractMetadataString.bind(this), prefix, strings)
     this.metadata.icon = lower(this.metadata.icon) // Icons are interpreted as lowercase in CH
-    if (this.metadata.icon === lower(this.metadata.charter)) { this.metadata.icon = '' } // Setting `icon` can be redundant
+    if (this.metadata.icon === lower(this.metadata.charter)) { // Setting `icon` can be redundant
+      if (prefix == '' && this.iniFile.song.icon !== undefined) {
+        this.addError('redundantIcon', `"icon" in "song.ini" is the same as "charter", so it is redundant.`)
+      }
+      this.metadata.icon = ''
+    }
 
     // album_track may be stored in `this.iniFile.song.track`
     const integers = ['song_length', 'diff_band', 'diff_guitar', 'diff_rhythm', 'diff_bass', 'diff_drums', 'diff_keys', 'diff_guitarghl', 'diff_bassghl',
@@ -136,7 +174,7 @@ export class IniScanner {
     const decimals = ['delay'] as const
     this.extractMetadataField<CInputMetaNumberKey, CMetaNumberKey>(this.extractMetadataDecimal.bind(this), prefix, decimals)
 
-    const booleans = ['modchart', 'eighthnote_hopo'] as const
+    const booleans = ['modchart', 'eighthnote_hopo', 'pro_drums', 'five_lane_drums'] as const
     this.extractMetadataField<CInputMetaBooleanKey, CMetaBooleanKey>(this.extractMetadataBoolean.bind(this), prefix, booleans)
   }
 
@@ -171,6 +209,7 @@ export class IniScanner {
     const value = this.iniFile.song[prefix + (iniField ?? metadataField)]
     if (typeof value === 'string' && !['', '0', '-1'].includes(value)) {
       this.metadata[metadataField] = removeStyleTags(value)
+      if (prefix == '') { this.iniStrings[metadataField] = value }
     }
   }
 
@@ -183,7 +222,8 @@ export class IniScanner {
     if (typeof value === 'number' && value !== -1) {
       const int = Math.round(value)
       if (int !== value) {
-        this.addError('invalidIniLine:' + prefix + iniField, `The "${prefix + iniField}" value in "song.ini" is "${value}", which is not an integer.`)
+        const key = prefix + (iniField ?? metadataField)
+        this.addError('nonIntegerIniValue:' + key, `The "${key}" value in "song.ini" is "${value}", which is not an integer.`)
       }
       this.metadata[metadataField] = int
     }
@@ -0,0 +1,195 @@
+import { ChartData, ChartMetadata, CMetaNumberKey, CMetaStringKey, defaultMetadata, Instrument, MetadataRuleID } from '../ChartInterfaces'
+import { getInstrumentName } from '../ChartUtils'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+import { scanSettings } from '../../ScanSettings'
+import { lower, removeStyleTags } from '../../UtilFunctions'
+import { IniStrings } from './IniScanner'
+
+interface MetadataRule {
+  id: MetadataRuleID
+  getIssues: (metadata: ChartMetadata, chartData: ChartData, iniStrings: IniStrings) => ChartDataIssue[]
+}
+
+/** The text fields that are displayed in CH */
+const textFields: CMetaStringKey[] = ['name', 'artist', 'album', 'genre', 'year', 'charter']
+/** The `song.ini` difficulty field for each instrument */
+const difficultyFields: { [instrument in Instrument]: CMetaNumberKey } = {
+  guitar: 'diff_guitar',
+  bass: 'diff_bass',
+  rhythm: 'diff_rhythm',
+  drums: 'diff_drums',
+  keys: 'diff_keys',
+  guitarghl: 'diff_guitarghl',
+  bassghl: 'diff_bassghl'
+}
+/** The highest difficulty value that CH displays */
+const MAX_DIFFICULTY = 6
+
+const metadataRules: MetadataRule[] = [
+  { id: 'missingMetadata', getIssues: getMissingMetadataIssues },
+  { id: 'nonNumericYear', getIssues: getNonNumericYearIssues },
+  { id: 'metadataStyleTags', getIssues: getStyleTagIssues },
+  { id: 'invalidDifficultyValue', getIssues: getInvalidDifficultyIssues },
+  { id: 'missingDifficultyValue', getIssues: getMissingDifficultyIssues },
+  { id: 'chartMetadataMismatch', getIssues: getChartMismatchIssues },
+  { id: 'unusedDifficultyValue', getIssues: getUnusedDifficultyIssues },
+  { id: 'missingBandDifficulty', getIssues: getMissingBandDifficultyIssues },
+  { id: 'drumTypeMismatch', getIssues: getDrumTypeIssues }
+]
+
+/**
+ * Checks `metadata` with each of the metadata rules that isn't in `scanSettings.disabledMetadataRules`.
+ * @param iniStrings the text values in "song.ini" before style tags were removed from `metadata`.
+ * @returns the issues found in `metadata`.
+ */
+export function getMetadataIssues(metadata: ChartMetadata, chartData: ChartData, iniStrings: IniStrings): ChartDataIssue[] {
+  return metadataRules
+    .filter(rule => !scanSettings.disabledMetadataRules.includes(rule.id))
+    .flatMap(rule => rule.getIssues(metadata, chartData, iniStrings))
+}
+
+/**
+ * @returns an issue for each field in `scanSettings.requiredMetadataFields` that isn't defined in `metadata`.
+ */
+function getMissingMetadataIssues(metadata: ChartMetadata) {
+  return scanSettings.requiredMetadataFields
+    .filter(field => metadata[field as keyof ChartMetadata] === defaultMetadata[field as keyof ChartMetadata])
+    .map(field => ({
+      errorID: 'missingMetadata:' + field,
+      description: `"song.ini" doesn't specify "${field}".`
+    }))
+}
+
+/**
+ * @returns an issue if `metadata.year` is defined, but isn't a four-digit year.
+ */
+function getNonNumericYearIssues(metadata: ChartMetadata) {
+  if (metadata.year == defaultMetadata.year || /^\d{4}$/.test(metadata.year.trim())) { return [] }
+  return [{
+    errorID: 'nonNumericYear',
+    description: `"year" in "song.ini" is "${metadata.year}", which is not a year.`
+  }]
+}
+
+/**
+ * @returns an issue for each text field in `iniStrings` that contains style tags or HTML.
+ * (`metadata` can't be checked, because matching pairs of tags were already removed from it)
+ */
+function getStyleTagIssues(metadata: ChartMetadata, chartData: ChartData, iniStrings: IniStrings) {
+  return textFields
+    .filter(field => iniStrings[field] !== undefined && /<\s*\/?\s*[a-z][^>]*>|&(#\d+|[a-z]+);/i.test(iniStrings[field]!))
+    .map(field => ({
+      errorID: 'metadataStyleTags:' + field,
+      description: `"${field}" in "song.ini" contains style tags or HTML: ${iniStrings[field]}`
+    }))
+}
+
+/**
+ * @returns an issue for each difficulty field in `metadata` that is not -1 (undefined) or between 0 and `MAX_DIFFICULTY`.
+ */
+function getInvalidDifficultyIssues(metadata: ChartMetadata) {
+  return (['diff_band', ...Object.values(difficultyFields)] as CMetaNumberKey[])
+    .filter(field => metadata[field] != -1 && (metadata[field] < 0 || metadata[field] > MAX_DIFFICULTY))
+    .map(field => ({
+      errorID: 'invalidDifficultyValue:' + field,
+      description: `"${field}" in "song.ini" is ${metadata[field]}, which is not between 0 and ${MAX_DIFFICULTY}.`
+    }))
+}
+
+/**
+ * @returns an issue for each instrument with notes in `chartData` that doesn't have a difficulty field in `metadata`.
+ */
+function getMissingDifficultyIssues(metadata: ChartMetadata, chartData: ChartData) {
+  return getChartedInstruments(chartData)
+    .filter(instrument => difficultyFields[instrument] !== undefined && metadata[difficultyFields[instrument]] == -1)
+    .map(instrument => ({
+      errorID: 'missingDifficultyValue:' + difficultyFields[instrument],
+      description: `This chart has ${getInstrumentName(instrument)} notes, but "song.ini" doesn't specify "${difficultyFields[instrument]}".`
+    }))
+}
+
+/**
+ * @returns an issue for each difficulty field in `metadata` that is defined for an instrument without any notes in `chartData`.
+ */
+function getUnusedDifficultyIssues(metadata: ChartMetadata, chartData: ChartData) {
+  return (Object.keys(difficultyFields) as Instrument[])
+    .filter(instrument => metadata[difficultyFields[instrument]] != -1 && chartData.trackHashes[instrument] === undefined)
+    .map(instrument => ({
+      errorID: 'unusedDifficultyValue:' + difficultyFields[instrument],
+      description: `"song.ini" specifies "${difficultyFields[instrument]}", but this chart doesn't have any ${getInstrumentName(instrument)} notes. `
+        + `CH will show ${getInstrumentName(instrument)} in the song list anyway.`
+    }))
+}
+
+/**
+ * @returns an issue if `metadata` doesn't define "diff_band" and `chartData` has notes for more than one instrument.
+ */
+function getMissingBandDifficultyIssues(metadata: ChartMetadata, chartData: ChartData) {
+  const instruments = getChartedInstruments(chartData)
+  if (metadata.diff_band != -1 || instruments.length < 2) { return [] }
+  return [{
+    errorID: 'missingBandDifficulty',
+    description: `This chart has ${instruments.map(instrument => getInstrumentName(instrument)).join(', ')}, but "song.ini" doesn't specify "diff_band".`
+  }]
+}
+
+/**
+ * @returns the instruments in `chartData` that have any notes.
+ * (`chartData.noteCounts` can't be used, because it doesn't include duplicate tracks or tracks with less than 10 notes)
+ */
+function getChartedInstruments(chartData: ChartData) {
+  return Object.keys(chartData.trackHashes) as Instrument[]
+}
+
+/**
+ * @returns an issue for each of the "pro_drums" and "five_lane_drums" flags in `metadata` that contradicts `chartData.drums`.
+ */
+function getDrumTypeIssues(metadata: ChartMetadata, chartData: ChartData) {
+  const issues: ChartDataIssue[] = []
+  const drums = chartData.drums
+  if (metadata.pro_drums && metadata.five_lane_drums) {
+    issues.push({
+      errorID: 'drumTypeMismatch:both',
+      description: `"song.ini" sets both "pro_drums" and "five_lane_drums", but a drums chart can only be one of these types.`
+    })
+  }
+  if (metadata.pro_drums && (drums === null || !drums.hasProDrums)) {
+    issues.push({
+      errorID: 'drumTypeMismatch:pro_drums',
+      description: `"song.ini" sets "pro_drums", but ${drums === null ? `this chart doesn't have drums` : `the drums don't have any cymbal or tom markers`}.`
+    })
+  }
+  if (metadata.five_lane_drums && (drums === null || drums.laneCount != 5)) {
+    issues.push({
+      errorID: 'drumTypeMismatch:five_lane_drums',
+      description: `"song.ini" sets "five_lane_drums", but ${drums === null ? `this chart doesn't have drums` : `the drums don't use the fifth lane`}.`
+    })
+  } else if (!metadata.five_lane_drums && drums !== null && drums.laneCount == 5 && !drums.hasProDrums) {
+    issues.push({
+      errorID: 'drumTypeMismatch:five_lane_drums',
+      description: `The drums use the fifth lane, but "song.ini" doesn't set "five_lane_drums".`
+    })
+  }
+
+  return issues
+}
+
+/**
+ * @returns an issue for each text field in the .chart file's [Song] section that is different from the same field in `metadata`.
+ */
+function getChartMismatchIssues(metadata: ChartMetadata, chartData: ChartData) {
+  const issues: ChartDataIssue[] = []
+  for (const field of textFields) {
+    const chartValue = chartData.metadata[field as keyof ChartData['metadata']] as string | undefined
+    if (chartValue === undefined || chartValue == defaultMetadata[field] || metadata[field] == defaultMetadata[field]) { continue }
+
+    if (lower(removeStyleTags(chartValue).trim()) != lower(metadata[field].trim())) {
+      issues.push({
+        errorID: 'chartMetadataMismatch:' + field,
+        description: `"${field}" in "song.ini" is "${metadata[field]}", but it is "${chartValue}" in "notes.chart".`
+      })
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,406 @@
+import MIDIFile from 'midifile'
+import { ChartEvent, ChartModel, ChartNote, ChartPhrase, ChartTrack, Difficulty, Instrument, SpecialPhrase, VocalPart, VocalTrack } from '../ChartInterfaces'
+
+// Note numbers and track names are based on the Rock Band MIDI spec and MoonScraper's MidReader:
+// https://github.com/FireFox2000000/Moonscraper-Chart-Editor/blob/master/Moonscraper%20Chart%20Editor/Assets/Scripts/Charts/IO/Midi/MidReader.cs
+
+/** A MIDI note, with its position and length in ticks */
+type MidiNote = { tick: number, note: number, length: number }
+/** A Phase Shift SysEx modifier, which applies to `difficulty` (or all difficulties if `null`) from `tick` to `tick + length` */
+type SysExModifier = { tick: number, length: number, difficulty: Difficulty | null, type: number }
+type TrackEvents = { name: string, notes: MidiNote[], texts: ChartEvent[], lyrics: ChartEvent[], sysExModifiers: SysExModifier[] }
+
+const TICKS_PER_BEAT = 2
+const EVENT_META = 0xFF
+const EVENT_SYSEX = 0xF0
+const EVENT_DIVSYSEX = 0xF7
+const EVENT_MIDI = 0x8
+const META_TEXT = 0x01
+const META_TRACK_NAME = 0x03
+const META_LYRICS = 0x05
+const META_SET_TEMPO = 0x51
+const META_TIME_SIGNATURE = 0x58
+const MIDI_NOTE_OFF = 0x8
+const MIDI_NOTE_ON = 0x9
+
+const partMap: { [trackName: string]: Instrument } = {
+  'PART GUITAR': 'guitar',
+  'T1 GEMS': 'guitar',
+  'PART BASS': 'bass',
+  'PART RHYTHM': 'rhythm',
+  'PART KEYS': 'keys',
+  'PART DRUMS': 'drums',
+  'PART GUITAR GHL': 'guitarghl',
+  'PART BASS GHL': 'bassghl',
+}
+
+const vocalPartMap: { [trackName: string]: VocalPart } = {
+  'PART VOCALS': 'vocals',
+  'HARM1': 'harm1',
+  'HARM2': 'harm2',
+  'HARM3': 'harm3',
+}
+const vocalParts: VocalPart[] = ['vocals', 'harm1', 'harm2', 'harm3']
+
+const difficulties: Difficulty[] = ['e', 'm', 'h', 'x']
+
+/** The note number of the lowest lane (green/kick) for each difficulty */
+const fiveFretBases: { [difficulty in Difficulty]: number } = { e: 60, m: 72, h: 84, x: 96 }
+/** The note number of the open lane for each difficulty */
+const ghlBases: { [difficulty in Difficulty]: number } = { e: 58, m: 70, h: 82, x: 94 }
+
+const SOLO_NOTE = 103
+const TAP_NOTE = 104
+const STAR_POWER_NOTE = 116
+const DRUM_FILL_NOTES = [120, 121, 122, 123, 124]
+const DRUM_ROLL_NOTE = 126
+const DRUM_SPECIAL_ROLL_NOTE = 127
+const EXPERT_PLUS_KICK_NOTE = 95
+const VOCAL_PHRASE_NOTES = [105, 106]
+const VOCAL_PITCH_RANGE = [36, 84]
+const VOCAL_PERCUSSION_NOTES = [96, 97]
+/** The tom marker note numbers, and the lane that each one applies to */
+const tomMarkers: { [marker: number]: number } = { 110: 2, 111: 3, 112: 4 }
+
+const SYSEX_OPEN = 1
+const SYSEX_TAP = 4
+
+/**
+ * Parses the contents of a .mid file.
+ * @returns a `ChartModel` containing the contents of `midiBuffer`, using the same note numbers as a .chart file.
+ * @throws a string error description if `midiBuffer` is formatted incorrectly.
+ */
+export function parseMidiBuffer(midiBuffer: Buffer): ChartModel {
+  let midi: MIDIFile
+  try {
+    midi = new MIDIFile(midiBuffer)
+  } catch (err) {
+    throw `Failed to read the MIDI file: ${err}`
+  }
+
+  if (midi.header.getTimeDivision() != TICKS_PER_BEAT) { throw 'MIDI file uses SMPTE time division, which is not supported.' }
+  const resolution = midi.header.getTicksPerBeat()
+  if (resolution <= 0) { throw 'MIDI file has an invalid time division.' }
+
+  const chartModel: ChartModel = {
+    resolution,
+    metadata: { resolution },
+    tempos: [],
+    timeSignatures: [],
+    firstTempoTick: 0,
+    sections: [],
+    events: [],
+    tracks: [],
+    vocalTracks: []
+  }
+
+  for (let i = 0; i < midi.tracks.length; i++) {
+    const midiEvents = midi.getTrackEvents(i)
+    if (i == 0) { // The tempo map is always in the first track
+      readTempoMap(midiEvents, chartModel)
+    }
+
+    const trackEvents = getTrackEvents(midiEvents)
+    const part = partMap[trackEvents.name]
+    const vocalPart = vocalPartMap[trackEvents.name]
+    if (trackEvents.name == 'EVENTS') {
+      chartModel.events.push(...trackEvents.texts.map(getGlobalEvent))
+    } else if (vocalPart !== undefined && !chartModel.vocalTracks.some(track => track.part == vocalPart)) {
+      if (vocalPart == 'vocals') {
+        // Some charts have text events for lyrics instead of lyric events
+        trackEvents.lyrics.push(...trackEvents.texts.filter(text => !text.text.startsWith('[')))
+        chartModel.events.push(...trackEvents.lyrics.map(lyric => ({ tick: lyric.tick, text: `lyric ${lyric.text}` })))
+      }
+      chartModel.vocalTracks.push(getVocalTrack(vocalPart, trackEvents))
+    } else if (part !== undefined && !chartModel.tracks.some(track => track.instrument == part)) { // CH uses the first track with each name
+      chartModel.tracks.push(...getInstrumentTracks(part, trackEvents, resolution))
+    }
+  }
+  sortVocalTracks(chartModel.vocalTracks)
+
+  chartModel.tempos.sort((a, b) => a.tick - b.tick)
+  chartModel.timeSignatures.sort((a, b) => a.tick - b.tick)
+  chartModel.firstTempoTick = chartModel.tempos[0]?.tick ?? 0
+  if (chartModel.tempos.length == 0 || chartModel.tempos[0].tick != 0) {
+    chartModel.tempos.unshift({ tick: 0, bpm: 120 }) // MIDI files have a default tempo of 120 BPM
+  }
+  if (chartModel.tracks.length == 0) { throw 'Chart does not contain any instruments.' }
+
+  chartModel.events.sort((a, b) => a.tick - b.tick)
+  chartModel.sections = chartModel.events
+    .filter(event => event.text.startsWith('section '))
+    .map(event => ({ tick: event.tick, text: event.text.substr(8) }))
+
+  return chartModel
+}
+
+/**
+ * Adds the tempo and time signature markers in `midiEvents` to `chartModel`.
+ */
+function readTempoMap(midiEvents: MIDIFile.MIDIEvent[], chartModel: ChartModel) {
+  let tick = 0
+  for (const event of midiEvents) {
+    tick += event.delta
+    if (event.type != EVENT_META) { continue }
+
+    if (event.subtype == META_SET_TEMPO && event.tempo) {
+      chartModel.tempos.push({ tick, bpm: 60000000 / event.tempo })
+    } else if (event.subtype == META_TIME_SIGNATURE && event.param1 !== undefined && event.param2 !== undefined) {
+      chartModel.timeSignatures.push({ tick, numerator: event.param1, denominator: Math.pow(2, event.param2) })
+    }
+  }
+}
+
+/**
+ * @returns the notes, text events, lyrics, and SysEx modifiers in `midiEvents`, with absolute tick positions.
+ */
+function getTrackEvents(midiEvents: MIDIFile.MIDIEvent[]) {
+  const trackEvents: TrackEvents = { name: '', notes: [], texts: [], lyrics: [], sysExModifiers: [] }
+  const openNotes: { [note: number]: number } = {}
+  const openModifiers: { [key: string]: number } = {}
+
+  let tick = 0
+  for (const event of midiEvents) {
+    tick += event.delta
+    if (event.type == EVENT_MIDI && event.param1 !== undefined) {
+      if (event.subtype == MIDI_NOTE_ON) {
+        openNotes[event.param1] ??= tick
+      } else if (event.subtype == MIDI_NOTE_OFF && openNotes[event.param1] !== undefined) {
+        const startTick = openNotes[event.param1]
+        trackEvents.notes.push({ tick: startTick, note: event.param1, length: tick - startTick })
+        delete openNotes[event.param1]
+      }
+    } else if (event.type == EVENT_META && event.data) {
+      const text = Buffer.from(event.data).toString('utf8').trim()
+      if (event.subtype == META_TRACK_NAME && trackEvents.name == '') {
+        trackEvents.name = text
+      } else if (event.subtype == META_TEXT) {
+        trackEvents.texts.push({ tick, text })
+      } else if (event.subtype == META_LYRICS) {
+        trackEvents.lyrics.push({ tick, text })
+      }
+    } else if ((event.type == EVENT_SYSEX || event.type == EVENT_DIVSYSEX) && event.data) {
+      const modifier = getSysExModifier(event.data)
+      if (modifier === null) { continue }
+
+      const key = `${modifier.difficulty}.${modifier.type}`
+      if (modifier.enabled) {
+        openModifiers[key] ??= tick
+      } else if (openModifiers[key] !== undefined) {
+        trackEvents.sysExModifiers.push({ tick: openModifiers[key], length: tick - openModifiers[key], difficulty: modifier.difficulty, type: modifier.type })
+        delete openModifiers[key]
+      }
+    }
+  }
+
+  trackEvents.notes.sort((a, b) => a.tick - b.tick)
+  return trackEvents
+}
+
+/**
+ * @returns the Phase Shift modifier in the SysEx event with `data`, or `null` if it isn't a Phase Shift modifier.
+ * Phase Shift SysEx events are formatted as: 0xF0 "P" "S" 0x00 0x00 <difficulty> <type> <enabled> 0xF7
+ * (The difficulty is 0-3 from easy to expert, or 0xFF for all difficulties)
+ */
+function getSysExModifier(data: number[]) {
+  const bytes = data[0] == EVENT_SYSEX ? data.slice(1) : data
+  if (bytes.length < 7 || bytes[0] != 0x50 || bytes[1] != 0x53 || bytes[2] != 0x00 || bytes[3] != 0x00) { return null }
+
+  const difficulty = bytes[4] == 0xFF ? null : difficulties[bytes[4]]
+  if (difficulty === undefined) { return null }
+
+  return { difficulty, type: bytes[5], enabled: bytes[6] == 0x01 }
+}
+
+/**
+ * @returns `text` converted to the format used in a .chart file's `[Events]` section. (e.g. "[section Verse 1]" -> "section Verse 1")
+ * RB section events ("[prc_verse_1]") are converted to regular section events.
+ */
+function getGlobalEvent(event: ChartEvent): ChartEvent {
+  const text = event.text.replace(/^\[(.*)\]$/, '$1').trim()
+  const prcResult = /^prc_(.*)$/.exec(text)
+  return { tick: event.tick, text: prcResult ? `section ${prcResult[1].replace(/_/g, ' ')}` : text }
+}
+
+/**
+ * @returns a `ChartTrack` for each difficulty of `instrument` that has notes in `trackEvents`.
+ */
+function getInstrumentTracks(instrument: Instrument, trackEvents: TrackEvents, resolution: number) {
+  const starPower = getPhrases(trackEvents.notes, STAR_POWER_NOTE)
+  const soloSections = getPhrases(trackEvents.notes, SOLO_NOTE)
+  const soloEvents = soloSections.flatMap(solo => [{ tick: solo.tick, text: 'solo' }, { tick: solo.tick + solo.length, text: 'soloend' }])
+  const specialPhrases: SpecialPhrase[] = []
+  if (instrument == 'drums') {
+    specialPhrases.push(...getPhrases(trackEvents.notes, ...DRUM_FILL_NOTES).map(phrase => ({ ...phrase, type: 64 })))
+    specialPhrases.push(...getPhrases(trackEvents.notes, DRUM_ROLL_NOTE).map(phrase => ({ ...phrase, type: 65 })))
+    specialPhrases.push(...getPhrases(trackEvents.notes, DRUM_SPECIAL_ROLL_NOTE).map(phrase => ({ ...phrase, type: 66 })))
+  }
+
+  const hasEnhancedOpens = trackEvents.texts.some(text => text.text == '[ENHANCED_OPENS]' || text.text == 'ENHANCED_OPENS')
+  const sustainCutoff = resolution / 3 // CH ignores MIDI sustains shorter than this
+
+  const tracks: ChartTrack[] = []
+  for (const difficulty of difficulties.slice().reverse()) {
+    let notes: ChartNote[]
+    if (instrument == 'drums') {
+      notes = getDrumNotes(trackEvents.notes, difficulty)
+    } else if (instrument == 'guitarghl' || instrument == 'bassghl') {
+      notes = getGhlNotes(trackEvents, difficulty)
+    } else {
+      notes = getFiveFretNotes(trackEvents, difficulty, hasEnhancedOpens)
+    }
+    if (notes.length == 0) { continue }
+
+    notes.forEach(note => note.length = note.length < sustainCutoff || instrument == 'drums' ? 0 : note.length)
+    tracks.push({
+      instrument,
+      difficulty,
+      notes: notes.sort((a, b) => a.tick - b.tick || a.value - b.value),
+      starPower: starPower.slice(),
+      soloSections: soloSections.slice(),
+      specialPhrases: specialPhrases.slice(),
+      events: soloEvents.slice()
+    })
+  }
+
+  return tracks
+}
+
+/**
+ * @returns a `VocalTrack` for `part` that contains the phrases, lyrics, and notes in `trackEvents`.
+ */
+function getVocalTrack(part: VocalPart, trackEvents: TrackEvents): VocalTrack {
+  return {
+    part,
+    phrases: getPhrases(trackEvents.notes, ...VOCAL_PHRASE_NOTES),
+    lyrics: trackEvents.lyrics.slice().sort((a, b) => a.tick - b.tick),
+    notes: trackEvents.notes
+      .filter(note => (note.note >= VOCAL_PITCH_RANGE[0] && note.note <= VOCAL_PITCH_RANGE[1]) || VOCAL_PERCUSSION_NOTES.includes(note.note))
+      .map(note => ({ tick: note.tick, length: note.length }))
+  }
+}
+
+/**
+ * Sorts `vocalTracks` into the order PART VOCALS, HARM1, HARM2, HARM3.
+ * HARM2 and HARM3 usually don't have their own phrases, so they use the phrases from the previous harmony track.
+ */
+function sortVocalTracks(vocalTracks: VocalTrack[]) {
+  vocalTracks.sort((a, b) => vocalParts.indexOf(a.part) - vocalParts.indexOf(b.part))
+  for (let i = 1; i < vocalTracks.length; i++) {
+    const track = vocalTracks[i]
+    if ((track.part == 'harm2' || track.part == 'harm3') && track.phrases.length == 0 && vocalTracks[i - 1].part != 'vocals') {
+      track.phrases = vocalTracks[i - 1].phrases.slice()
+    }
+  }
+}
+
+/**
+ * @returns phrases for all the notes in `notes` with one of the note numbers in `phraseNotes`.
+ */
+function getPhrases(notes: MidiNote[], ...phraseNotes: number[]): ChartPhrase[] {
+  const phrases: ChartPhrase[] = []
+  for (const note of notes) {
+    if (phraseNotes.includes(note.note) && !phrases.some(phrase => phrase.tick == note.tick)) {
+      phrases.push({ tick: note.tick, length: note.length })
+    }
+  }
+  return phrases
+}
+
+/**
+ * @returns `true` if `tick` is inside any of `ranges`.
+ */
+function isInRange(tick: number, ranges: { tick: number, length: number }[]) {
+  return ranges.some(range => tick >= range.tick && (tick < range.tick + range.length || tick == range.tick))
+}
+
+/**
+ * @returns the notes for `difficulty` of a five-fret instrument, including forcing and tap modifiers.
+ */
+function getFiveFretNotes(trackEvents: TrackEvents, difficulty: Difficulty, hasEnhancedOpens: boolean) {
+  const base = fiveFretBases[difficulty]
+  const forceRanges = trackEvents.notes.filter(note => note.note == base + 5 || note.note == base + 6)
+  const tapRanges = [
+    ...trackEvents.notes.filter(note => note.note == TAP_NOTE),
+    ...trackEvents.sysExModifiers.filter(modifier => modifier.type == SYSEX_TAP && (modifier.difficulty ?? difficulty) == difficulty)
+  ]
+  const openRanges = trackEvents.sysExModifiers.filter(modifier => modifier.type == SYSEX_OPEN && (modifier.difficulty ?? difficulty) == difficulty)
+
+  const notes: ChartNote[] = []
+  for (const note of trackEvents.notes) {
+    const lane = note.note - base
+    if (lane == -1 && hasEnhancedOpens) {
+      notes.push({ tick: note.tick, value: 7, length: note.length })
+    } else if (lane >= 0 && lane <= 4) {
+      const isOpen = lane == 0 && isInRange(note.tick, openRanges) // Phase Shift open notes replace green notes
+      notes.push({ tick: note.tick, value: isOpen ? 7 : lane, length: note.length })
+    }
+  }
+
+  return addModifiers(notes, forceRanges, tapRanges)
+}
+
+/**
+ * @returns the notes for `difficulty` of a six-fret instrument, including forcing and tap modifiers.
+ * MIDI lanes are open, white 1-3, and black 1-3. These are converted to .chart notes 7, 0-2, 3-4, and 8.
+ */
+function getGhlNotes(trackEvents: TrackEvents, difficulty: Difficulty) {
+  const base = ghlBases[difficulty]
+  const laneValues = [7, 0, 1, 2, 3, 4, 8]
+  const forceRanges = trackEvents.notes.filter(note => note.note == base + 7 || note.note == base + 8)
+  const tapRanges = [
+    ...trackEvents.notes.filter(note => note.note == TAP_NOTE),
+    ...trackEvents.sysExModifiers.filter(modifier => modifier.type == SYSEX_TAP && (modifier.difficulty ?? difficulty) == difficulty)
+  ]
+
+  const notes: ChartNote[] = []
+  for (const note of trackEvents.notes) {
+    const lane = note.note - base
+    if (lane >= 0 && lane <= 6) {
+      notes.push({ tick: note.tick, value: laneValues[lane], length: note.length })
+    }
+  }
+
+  return addModifiers(notes, forceRanges, tapRanges)
+}
+
+/**
+ * @returns the notes for `difficulty` of a drums track.
+ * MIDI lanes are kick, red, yellow, blue, and green (or orange and green for five-lane drums). These are converted to .chart notes 0-5.
+ * Expert+ kicks are converted to .chart note 32.
+ * In a .mid file, yellow, blue, and green notes are cymbals unless they have a tom marker. (the opposite of a .chart file)
+ * If the track has any tom markers, it is treated as pro drums and the notes without tom markers are given .chart cymbal markers (66-68).
+ * (If there are no tom markers, it can't be determined if the track is intended to be pro drums)
+ */
+function getDrumNotes(midiNotes: MidiNote[], difficulty: Difficulty) {
+  const base = fiveFretBases[difficulty]
+  const tomRanges = midiNotes.filter(note => tomMarkers[note.note] !== undefined)
+  const notes: ChartNote[] = []
+  for (const note of midiNotes) {
+    const lane = note.note - base
+    if (lane >= 0 && lane <= 5) {
+      notes.push({ tick: note.tick, value: lane, length: note.length })
+      const isTom = tomRanges.some(range => tomMarkers[range.note] == lane && isInRange(note.tick, [range]))
+      if (tomRanges.length > 0 && lane >= 2 && lane <= 4 && !isTom) {
+        notes.push({ tick: note.tick, value: lane + 64, length: 0 })
+      }
+    } else if (difficulty == 'x' && note.note == EXPERT_PLUS_KICK_NOTE) {
+      notes.push({ tick: note.tick, value: 32, length: note.length })
+    }
+  }
+
+  return notes
+}
+
+/**
+ * @returns `notes`, with a forced (5) or tap (6) modifier added for each chord that is inside `forceRanges` or `tapRanges`.
+ */
+function addModifiers(notes: ChartNote[], forceRanges: ChartPhrase[], tapRanges: ChartPhrase[]) {
+  const ticks = Array.from(new Set(notes.map(note => note.tick)))
+  for (const tick of ticks) {
+    if (isInRange(tick, forceRanges)) { notes.push({ tick, value: 5, length: 0 }) }
+    if (isInRange(tick, tapRanges)) { notes.push({ tick, value: 6, length: 0 }) }
+  }
+
+  return notes
+}
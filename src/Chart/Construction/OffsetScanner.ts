@@ -0,0 +1,57 @@
+import { parse } from 'path'
+import { AudioStem, ChartData, ChartMetadata } from '../ChartInterfaces'
+import { hasVideoExtension } from '../ChartUtils'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+import { lower } from '../../UtilFunctions'
+import { getAudioLength } from './AudioScanner'
+import { ChartFolder } from './ChartsScanner'
+import { formatTimestamp } from './ChartTiming'
+
+/**
+ * @returns the issues found in the preview, delay, and video offset values in `metadata` and `chartData`.
+ */
+export function getOffsetIssues(chartFolder: ChartFolder, audioStems: AudioStem[], chartData: ChartData, metadata: ChartMetadata): ChartDataIssue[] {
+  const issues: ChartDataIssue[] = []
+
+  const audioLength = getAudioLength(audioStems)
+  const hasPreviewAudio = audioStems.some(stem => lower(parse(stem.name).name) == 'preview') // CH plays the preview audio instead
+  if (audioLength !== null && !hasPreviewAudio && metadata.preview_start_time > audioLength * 1000) {
+    issues.push({
+      errorID: 'previewPastEnd',
+      description: `"song.ini" has "preview_start_time" = ${metadata.preview_start_time} (${formatTimestamp(metadata.preview_start_time / 1000)}), `
+        + `but the audio ends at ${formatTimestamp(audioLength)}.`
+    })
+  }
+
+  if (metadata.delay != 0) {
+    issues.push({
+      errorID: 'nonZeroDelay',
+      description: `"song.ini" has "delay" = ${metadata.delay}. CH shifts the notes by this amount, but most editors don't, `
+        + `so the chart won't line up the way it did when it was charted. Add silence to the audio instead.`
+    })
+  }
+
+  const chartOffset = chartData.metadata.offset ?? 0
+  if (chartOffset != 0) {
+    issues.push({
+      errorID: 'nonZeroChartOffset',
+      description: `"notes.chart" has "Offset" = ${chartOffset}. Editors and CH don't apply this value consistently, so it should be 0.`
+    })
+  }
+  // .mid files don't have an "Offset" value to compare
+  if (chartData.metadata.offset !== undefined && Math.abs(chartOffset * 1000 - metadata.delay) >= 1) { // "Offset" is in seconds and "delay" is in milliseconds
+    issues.push({
+      errorID: 'chartOffsetMismatch',
+      description: `"notes.chart" has "Offset" = ${chartOffset} (${chartOffset * 1000}ms), but "song.ini" has "delay" = ${metadata.delay}.`
+    })
+  }
+
+  if (metadata.video_start_time != 0 && !chartFolder.files.some(file => hasVideoExtension(file.name))) {
+    issues.push({
+      errorID: 'videoStartWithoutVideo',
+      description: `"song.ini" has "video_start_time" = ${metadata.video_start_time}, but this chart doesn't have a video file.`
+    })
+  }
+
+  return issues
+}
@@ -0,0 +1,116 @@
+import { ChartData, ChartEvent, ChartModel, ChartNote, ChartPhrase, PhrasesData } from '../ChartInterfaces'
+import { getPlayedNotes, getTrackName } from '../ChartUtils'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+import { describePositions, getPositionConverter } from './ChartTiming'
+
+/**
+ * Scans the star power phrases and solo sections in each track in `chartModel`.
+ * @returns a `PhrasesData` object for each track that has any star power or solo section problems.
+ */
+export function scanPhrases(chartModel: ChartModel): PhrasesData[] {
+  const getPosition = getPositionConverter(chartModel)
+
+  const phrases: PhrasesData[] = []
+  for (const track of chartModel.tracks) {
+    const notes = getPlayedNotes(track)
+    const expertTrack = chartModel.tracks.find(otherTrack => otherTrack.instrument == track.instrument && otherTrack.difficulty == 'x')
+    const trackPhrases: PhrasesData = {
+      instrument: track.instrument,
+      difficulty: track.difficulty,
+      emptyStarPower: track.starPower.filter(phrase => !hasNotes(notes, phrase.tick, phrase.tick + phrase.length - 1)).map(phrase => getPosition(phrase.tick)),
+      overlappingStarPower: getOverlappingPhrases(track.starPower).map(phrase => getPosition(phrase.tick)),
+      unmatchedSoloEvents: getUnmatchedSoloEvents(track.events).map(event => getPosition(event.tick)),
+      emptySoloSections: track.soloSections.filter(solo => !hasNotes(notes, solo.tick, solo.tick + solo.length)).map(solo => getPosition(solo.tick)),
+      missingStarPower: track.difficulty != 'x' && track.starPower.length == 0 && (expertTrack?.starPower.length ?? 0) > 0
+    }
+
+    if (trackPhrases.emptyStarPower.length > 0 || trackPhrases.overlappingStarPower.length > 0 || trackPhrases.unmatchedSoloEvents.length > 0
+      || trackPhrases.emptySoloSections.length > 0 || trackPhrases.missingStarPower) {
+      phrases.push(trackPhrases)
+    }
+  }
+
+  return phrases
+}
+
+/**
+ * @returns the issues found in `chartData.phrases`.
+ */
+export function getPhraseIssues(chartData: ChartData): ChartDataIssue[] {
+  const issues: ChartDataIssue[] = []
+  for (const phrases of chartData.phrases) {
+    const trackID = `${phrases.instrument}.${phrases.difficulty}`
+    const trackName = getTrackName(phrases.instrument, phrases.difficulty)
+    if (phrases.emptyStarPower.length > 0) {
+      issues.push({
+        errorID: 'emptyStarPower:' + trackID,
+        description: `${trackName} has ${describePositions(phrases.emptyStarPower, 'star power phrase')} without any notes.`
+      })
+    }
+    if (phrases.overlappingStarPower.length > 0) {
+      issues.push({
+        errorID: 'overlappingStarPower:' + trackID,
+        description: `${trackName} has ${describePositions(phrases.overlappingStarPower, 'star power phrase')} overlapping the previous phrase.`
+      })
+    }
+    if (phrases.unmatchedSoloEvents.length > 0) {
+      issues.push({
+        errorID: 'unmatchedSoloEvents:' + trackID,
+        description: `${trackName} has ${describePositions(phrases.unmatchedSoloEvents, 'solo marker')} without a matching "solo" or "soloend" event.`
+      })
+    }
+    if (phrases.emptySoloSections.length > 0) {
+      issues.push({
+        errorID: 'emptySoloSections:' + trackID,
+        description: `${trackName} has ${describePositions(phrases.emptySoloSections, 'solo section')} without any notes.`
+      })
+    }
+    if (phrases.missingStarPower) {
+      issues.push({
+        errorID: 'missingStarPower:' + trackID,
+        description: `${trackName} doesn't have any star power, but ${getTrackName(phrases.instrument, 'x')} does.`
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * @returns `true` if any of `notes` are between `startTick` and `endTick` (inclusive).
+ */
+function hasNotes(notes: ChartNote[], startTick: number, endTick: number) {
+  return notes.some(note => note.tick >= startTick && note.tick <= Math.max(startTick, endTick))
+}
+
+/**
+ * @returns the phrases in `phrases` that start before the previous phrase ends.
+ */
+function getOverlappingPhrases(phrases: ChartPhrase[]) {
+  const sortedPhrases = phrases.slice().sort((a, b) => a.tick - b.tick)
+  return sortedPhrases.filter((phrase, i) => i > 0 && phrase.tick < sortedPhrases[i - 1].tick + sortedPhrases[i - 1].length)
+}
+
+/**
+ * @returns the `solo` events in `events` that don't have a matching `soloend` event,
+ * and the `soloend` events that don't have a matching `solo` event.
+ */
+function getUnmatchedSoloEvents(events: ChartEvent[]) {
+  const unmatchedEvents: ChartEvent[] = []
+  let soloStart: ChartEvent | null = null
+  for (const event of events) {
+    if (event.text == 'solo') {
+      if (soloStart !== null) {
+        unmatchedEvents.push(event) // CH pairs the first `solo` event with the next `soloend` event
+      } else {
+        soloStart = event
+      }
+    } else if (event.text == 'soloend') {
+      if (soloStart === null) { unmatchedEvents.push(event) }
+      soloStart = null
+    }
+  }
+  if (soloStart !== null) { unmatchedEvents.push(soloStart) }
+
+  return unmatchedEvents
+}
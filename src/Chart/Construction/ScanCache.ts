@@ -0,0 +1,155 @@
+import * as fs from 'fs'
+import { createHash } from 'crypto'
+import { join } from 'path'
+import { promisify } from 'util'
+import { yellow } from 'cli-color'
+import { Chart } from '../Chart'
+import { AudioStem, ChartData, ChartMetadata } from '../ChartInterfaces'
+import { DriveChart } from '../../Drive/DriveInterfaces'
+import { issueRegistry } from '../../Issues/IssueRegistry'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+import { SCAN_CACHE_FILENAME } from '../../paths'
+import { scanSettings } from '../../ScanSettings'
+import { ChartFolder } from './ChartsScanner'
+
+const readFile = promisify(fs.readFile)
+const writeFile = promisify(fs.writeFile)
+const stat = promisify(fs.stat)
+
+/** Increment this when the scan results change, so charts that were cached by an older version are scanned again. */
+const SCAN_CACHE_VERSION = 4
+
+interface ScanCacheDocument {
+
+  /** The `SCAN_CACHE_VERSION` that was used to write the cache */
+  version: number
+
+  /** A hash of the settings that change the scan results. The whole cache is discarded if these settings have changed. */
+  settingsHash: string
+
+  /** The cached results for each chart folder path */
+  charts: { [chartPath: string]: CachedChart }
+}
+
+interface CachedChart {
+
+  /** A hash of the name, size, and modified time of each file in the chart folder */
+  filesKey: string
+  metadata: ChartMetadata
+  chartData: ChartData
+  audioStems: AudioStem[]
+  /** ISO 8601 */
+  lastModified: string | null
+  /** Every issue that was found while the chart was scanned */
+  issues: ChartDataIssue[]
+}
+
+/**
+ * Stores the scan results of each chart folder in `scanSettings.chartFolderPath`, so folders that haven't changed are not parsed again.
+ */
+class ScanCache {
+
+  private cachedCharts: { [chartPath: string]: CachedChart } = {}
+  private newCachedCharts: { [chartPath: string]: CachedChart } = {}
+  private filesKeys: { [chartPath: string]: string } = {}
+
+  private get cachePath() {
+    return join(scanSettings.chartFolderPath, SCAN_CACHE_FILENAME)
+  }
+
+  /**
+   * Loads the scan cache from `scanSettings.chartFolderPath`.
+   * The cache is ignored if it doesn't exist, can't be read, or was written by a different version or with different settings.
+   */
+  async load() {
+    if (!scanSettings.useScanCache) { return }
+
+    try {
+      const document: ScanCacheDocument = JSON.parse((await readFile(this.cachePath)).toString())
+      if (document.version == SCAN_CACHE_VERSION && document.settingsHash == getSettingsHash()) {
+        this.cachedCharts = document.charts
+      }
+    } catch (err) {
+      this.cachedCharts = {} // The cache will be rebuilt
+    }
+  }
+
+  /**
+   * Adds the cached issues for `chartFolder` to `issueRegistry`.
+   * @returns the cached `Chart` for `chartFolder`, or `null` if it isn't cached or any of its files have changed.
+   */
+  async getChart(chartFolder: ChartFolder, driveChart: DriveChart | undefined, sourceName: string) {
+    const cachedChart = this.cachedCharts[chartFolder.path]
+    if (!scanSettings.useScanCache || cachedChart === undefined || cachedChart.filesKey != await this.getFilesKey(chartFolder)) {
+      return null
+    }
+
+    for (const issue of cachedChart.issues) {
+      issueRegistry.addIncompleteError(driveChart, sourceName, issue.errorID, chartFolder.path, issue.description)
+    }
+    this.newCachedCharts[chartFolder.path] = cachedChart
+    const lastModified = cachedChart.lastModified === null ? undefined : new Date(cachedChart.lastModified)
+    return new Chart(sourceName, chartFolder.path, chartFolder.files, driveChart, cachedChart.metadata, cachedChart.chartData, cachedChart.audioStems, lastModified)
+  }
+
+  /**
+   * Adds `chart` to the cache, along with every issue in `issueRegistry` for `chartFolder`.
+   */
+  async addChart(chartFolder: ChartFolder, chart: Chart) {
+    if (!scanSettings.useScanCache) { return }
+
+    this.newCachedCharts[chartFolder.path] = {
+      filesKey: await this.getFilesKey(chartFolder),
+      metadata: chart.chartMetadata,
+      chartData: chart.chartData,
+      audioStems: chart.audioStems,
+      lastModified: chart.lastModified?.toISOString() ?? null,
+      issues: issueRegistry.getChartIssues(chartFolder.path).map(issue => ({ errorID: issue.errorID, description: issue.description }))
+    }
+  }
+
+  /**
+   * Writes every chart that was added or retrieved during this scan to the scan cache in `scanSettings.chartFolderPath`.
+   * (Charts that were not scanned again are removed from the cache)
+   */
+  async save() {
+    if (!scanSettings.useScanCache) { return }
+
+    const document: ScanCacheDocument = { version: SCAN_CACHE_VERSION, settingsHash: getSettingsHash(), charts: this.newCachedCharts }
+    try {
+      await writeFile(this.cachePath, JSON.stringify(document))
+    } catch (err) {
+      console.log(yellow(`Warning: Failed to write the scan cache to [${this.cachePath}]`), err)
+    }
+  }
+
+  /**
+   * @returns a hash of the name, size, and modified time of each file in `chartFolder`.
+   */
+  private async getFilesKey(chartFolder: ChartFolder) {
+    if (this.filesKeys[chartFolder.path] === undefined) {
+      const fileKeys: string[] = []
+      for (const file of chartFolder.files) {
+        try {
+          const stats = await stat(join(chartFolder.path, file.name))
+          fileKeys.push(`${file.name}:${stats.size}:${stats.mtimeMs}`)
+        } catch (err) {
+          fileKeys.push(file.name) // Broken symbolic link
+        }
+      }
+      this.filesKeys[chartFolder.path] = createHash('md5').update(fileKeys.sort().join('\n')).digest('hex')
+    }
+
+    return this.filesKeys[chartFolder.path]
+  }
+}
+
+/**
+ * @returns a hash of the settings in `scanSettings` that change the scan results.
+ */
+function getSettingsHash() {
+  const settings = [scanSettings.requiredMetadataFields, scanSettings.disabledMetadataRules]
+  return createHash('md5').update(JSON.stringify(settings)).digest('hex')
+}
+
+export const scanCache = new ScanCache()
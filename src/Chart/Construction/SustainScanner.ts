@@ -0,0 +1,123 @@
+import { ChartData, ChartModel, ChartNote, SustainsData } from '../ChartInterfaces'
+import { getPlayedNotes, getTrackName } from '../ChartUtils'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+import { describePositions, getPositionConverter } from './ChartTiming'
+
+/** The .chart note number for open notes, which use every fret */
+const OPEN = 7
+/** Sustains shorter than this many beats (a 48th note) are tiny sustains. (16 ticks at the standard resolution of 192) */
+const TINY_SUSTAIN_THRESHOLD = 1 / 12
+
+/**
+ * Scans the sustains in each guitar-style track in `chartModel`.
+ * @returns a `SustainsData` object for each track that has any sustain problems.
+ */
+export function scanSustains(chartModel: ChartModel): SustainsData[] {
+  const getPosition = getPositionConverter(chartModel)
+  const tinyThreshold = chartModel.resolution * TINY_SUSTAIN_THRESHOLD
+  const endTick = chartModel.events.find(event => event.text == 'end')?.tick
+
+  const sustains: SustainsData[] = []
+  for (const track of chartModel.tracks) {
+    if (track.instrument == 'drums') { continue } // Drum notes don't have sustains
+
+    const notes = getPlayedNotes(track)
+    const trackSustains: SustainsData = {
+      instrument: track.instrument,
+      difficulty: track.difficulty,
+      overlappingSustains: getTicks(getOverlappingSustains(notes)).map(getPosition),
+      tinySustains: getTicks(notes.filter(note => note.length > 0 && note.length < tinyThreshold)).map(getPosition),
+      sustainsPastEnd: endTick === undefined ? [] : getTicks(notes.filter(note => note.tick + note.length > endTick)).map(getPosition),
+      disjointChords: getTicks(getDisjointChords(notes)).map(getPosition)
+    }
+
+    if (trackSustains.overlappingSustains.length > 0 || trackSustains.tinySustains.length > 0
+      || trackSustains.sustainsPastEnd.length > 0 || trackSustains.disjointChords.length > 0) {
+      sustains.push(trackSustains)
+    }
+  }
+
+  return sustains
+}
+
+/**
+ * @returns the issues found in `chartData.sustains`.
+ */
+export function getSustainIssues(chartData: ChartData): ChartDataIssue[] {
+  const issues: ChartDataIssue[] = []
+  for (const sustains of chartData.sustains) {
+    const trackID = `${sustains.instrument}.${sustains.difficulty}`
+    const trackName = getTrackName(sustains.instrument, sustains.difficulty)
+    if (sustains.overlappingSustains.length > 0) {
+      issues.push({
+        errorID: 'overlappingSustains:' + trackID,
+        description: `${trackName} has ${describePositions(sustains.overlappingSustains, 'sustain')} overlapping the next note on the same fret.`
+      })
+    }
+    if (sustains.tinySustains.length > 0) {
+      issues.push({
+        errorID: 'tinySustains:' + trackID,
+        description: `${trackName} has ${describePositions(sustains.tinySustains, 'sustain')} shorter than a 48th note.`
+      })
+    }
+    if (sustains.sustainsPastEnd.length > 0) {
+      issues.push({
+        errorID: 'sustainsPastEnd:' + trackID,
+        description: `${trackName} has ${describePositions(sustains.sustainsPastEnd, 'sustain')} continuing past the end of the song.`
+      })
+    }
+    if (sustains.disjointChords.length > 0) {
+      issues.push({
+        errorID: 'disjointChords:' + trackID,
+        description: `${trackName} has ${describePositions(sustains.disjointChords, 'chord')} with notes of different sustain lengths.`
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * @returns the sustains in `notes` that continue past the start of the next note on the same fret.
+ * (Open notes use every fret, so an open note is on the same fret as every other note)
+ */
+function getOverlappingSustains(notes: ChartNote[]) {
+  const overlappingSustains: ChartNote[] = []
+  for (let i = 0; i < notes.length; i++) {
+    const note = notes[i]
+    if (note.length == 0) { continue }
+
+    for (let j = i + 1; j < notes.length; j++) {
+      const nextNote = notes[j]
+      if (nextNote.tick >= note.tick + note.length) { break }
+      if (nextNote.tick > note.tick && (nextNote.value == note.value || nextNote.value == OPEN || note.value == OPEN)) {
+        overlappingSustains.push(note)
+        break
+      }
+    }
+  }
+
+  return overlappingSustains
+}
+
+/**
+ * @returns a note from each chord in `notes` that has notes with different sustain lengths.
+ */
+function getDisjointChords(notes: ChartNote[]) {
+  const disjointChords: ChartNote[] = []
+  for (let i = 1; i < notes.length; i++) {
+    const previousNote = notes[i - 1]
+    if (notes[i].tick == previousNote.tick && notes[i].length != previousNote.length && disjointChords[disjointChords.length - 1]?.tick != previousNote.tick) {
+      disjointChords.push(previousNote)
+    }
+  }
+
+  return disjointChords
+}
+
+/**
+ * @returns the ticks of `notes`, without duplicates.
+ */
+function getTicks(notes: ChartNote[]) {
+  return Array.from(new Set(notes.map(note => note.tick)))
+}
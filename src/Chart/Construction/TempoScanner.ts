@@ -0,0 +1,137 @@
+import { ChartData, ChartModel, TempoMapData } from '../ChartInterfaces'
+import { getPlayedNotes } from '../ChartUtils'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+import { describePositions, getPositionConverter } from './ChartTiming'
+
+/** BPM markers outside this range are extreme tempos */
+const MIN_BPM = 20
+const MAX_BPM = 1000
+/** Time signature denominators that CH reads as intended (other denominators are usually an incorrect .chart exponent) */
+const validDenominators = [1, 2, 4, 8, 16, 32]
+/** Charts with at most this many BPM markers can be reported as not beat mapped */
+const MAX_UNMAPPED_TEMPO_COUNT = 3
+/** Charts shorter than this many beats are never reported as not beat mapped */
+const MIN_UNMAPPED_BEAT_COUNT = 32
+
+/** A time signature region, which has a beat every `beatLength` ticks from `tick` until the next region */
+type BeatSegment = { tick: number, beatLength: number }
+
+/**
+ * Scans the BPM and time signature markers in `chartModel`.
+ * @returns a `TempoMapData` object for `chartModel`.
+ */
+export function scanTempoMap(chartModel: ChartModel): TempoMapData {
+  const getPosition = getPositionConverter(chartModel)
+  const tempos = chartModel.tempos
+  let firstNoteTick = Infinity, lastNoteTick = 0
+  for (const track of chartModel.tracks) {
+    for (const note of getPlayedNotes(track)) {
+      firstNoteTick = Math.min(firstNoteTick, note.tick)
+      lastNoteTick = Math.max(lastNoteTick, note.tick)
+    }
+  }
+  const beatSegments = getBeatSegments(chartModel)
+
+  const isConstantDuringNotes = !tempos.some(tempo => tempo.tick > firstNoteTick && tempo.tick <= lastNoteTick)
+  const notesTempo = tempos.filter(tempo => tempo.tick <= firstNoteTick).pop() ?? tempos[0]
+  const beatCount = getBeatCount(beatSegments, lastNoteTick)
+  return {
+    firstTempoNotAtStart: chartModel.firstTempoTick != 0,
+    extremeTempos: tempos
+      .filter(tempo => !(tempo.bpm >= MIN_BPM && tempo.bpm <= MAX_BPM))
+      .map(tempo => ({ ...getPosition(tempo.tick), bpm: tempo.bpm })),
+    offBeatTempos: tempos
+      .filter(tempo => !isOnBeat(beatSegments, tempo.tick))
+      .map(tempo => ({ ...getPosition(tempo.tick), bpm: tempo.bpm })),
+    invalidTimeSignatures: chartModel.timeSignatures
+      .filter(timeSignature => !validDenominators.includes(timeSignature.denominator) || !(timeSignature.numerator >= 1))
+      .map(timeSignature => ({ ...getPosition(timeSignature.tick), numerator: timeSignature.numerator, denominator: timeSignature.denominator })),
+    beatCount,
+    isNotBeatMapped: tempos.length <= MAX_UNMAPPED_TEMPO_COUNT && isConstantDuringNotes && Number.isInteger(notesTempo.bpm)
+      && beatCount >= MIN_UNMAPPED_BEAT_COUNT
+  }
+}
+
+/**
+ * @returns the issues found in `chartData.tempoMap`.
+ */
+export function getTempoMapIssues(chartData: ChartData): ChartDataIssue[] {
+  const tempoMap = chartData.tempoMap
+  const issues: ChartDataIssue[] = []
+  if (tempoMap.firstTempoNotAtStart) {
+    issues.push({
+      errorID: 'tempoNotAtStart',
+      description: `The first BPM marker isn't at the start of the chart, so the chart uses 120 BPM until that marker.`
+    })
+  }
+  if (tempoMap.extremeTempos.length > 0) {
+    issues.push({
+      errorID: 'extremeTempo',
+      description: `The chart has ${describePositions(tempoMap.extremeTempos, 'BPM marker')} outside of ${MIN_BPM}-${MAX_BPM} BPM. `
+        + `(${tempoMap.extremeTempos.length == 1 ? 'It' : 'The first one'} is ${+tempoMap.extremeTempos[0].bpm.toFixed(3)} BPM)`
+    })
+  }
+  if (tempoMap.offBeatTempos.length > 0) {
+    issues.push({
+      errorID: 'offBeatTempo',
+      description: `The chart has ${describePositions(tempoMap.offBeatTempos, 'BPM marker')} between beats.`
+    })
+  }
+  if (tempoMap.invalidTimeSignatures.length > 0) {
+    const { numerator, denominator } = tempoMap.invalidTimeSignatures[0]
+    issues.push({
+      errorID: 'invalidTimeSignature',
+      description: `The chart has ${describePositions(tempoMap.invalidTimeSignatures, 'time signature')} that CH will misread. `
+        + `(${tempoMap.invalidTimeSignatures.length == 1 ? 'It' : 'The first one'} is ${numerator}/${denominator}. A .chart file stores the denominator as a power of two, so "TS 4 2" is 4/4)`
+    })
+  }
+  if (tempoMap.isNotBeatMapped) {
+    issues.push({
+      errorID: 'notBeatMapped',
+      description: `The chart has the same BPM for all the notes and only a few BPM markers, so it probably isn't beat mapped.`
+    })
+  }
+
+  return issues
+}
+
+/**
+ * @returns the start tick and beat length (in ticks) of each time signature region in `chartModel`.
+ * (A beat is a quarter note in 4/4, or an eighth note in 6/8. Invalid time signatures are ignored)
+ */
+function getBeatSegments(chartModel: ChartModel): BeatSegment[] {
+  const timeSignatures = chartModel.timeSignatures.filter(timeSignature => validDenominators.includes(timeSignature.denominator))
+  if (timeSignatures[0]?.tick !== 0) {
+    timeSignatures.unshift({ tick: 0, numerator: 4, denominator: 4 }) // Charts are 4/4 until the first time signature marker
+  }
+
+  return timeSignatures.map(timeSignature => ({ tick: timeSignature.tick, beatLength: chartModel.resolution * 4 / timeSignature.denominator }))
+}
+
+/**
+ * @returns `true` if `tick` is on a beat in the region of `beatSegments` that contains it.
+ */
+function isOnBeat(beatSegments: BeatSegment[], tick: number) {
+  const { tick: startTick, beatLength } = beatSegments.filter(segment => segment.tick <= tick).pop()!
+  const beat = Math.floor((tick - startTick) / beatLength)
+  return Math.round(startTick + beat * beatLength) == tick || Math.round(startTick + (beat + 1) * beatLength) == tick
+}
+
+/**
+ * @returns the number of beats in `beatSegments` from the start of the chart to `endTick` (inclusive).
+ * (Beats are rounded to the nearest tick)
+ */
+function getBeatCount(beatSegments: BeatSegment[], endTick: number) {
+  let beatCount = 0
+  for (let i = 0; i < beatSegments.length && beatSegments[i].tick <= endTick; i++) {
+    const { tick, beatLength } = beatSegments[i]
+    const nextTick = beatSegments[i + 1]?.tick
+    if (nextTick !== undefined && nextTick <= endTick) {
+      beatCount += Math.ceil((nextTick - 0.5 - tick) / beatLength) // The next region starts with a beat, so it isn't counted here
+    } else {
+      beatCount += Math.ceil((endTick + 0.5 - tick) / beatLength)
+    }
+  }
+
+  return beatCount
+}
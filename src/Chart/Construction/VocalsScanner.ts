@@ -0,0 +1,116 @@
+import { ChartData, ChartEvent, ChartModel, ChartPhrase, VocalPart, VocalsData, VocalTrack } from '../ChartInterfaces'
+import { ChartDataIssue } from '../../Issues/IssueInterfaces'
+import { describePositions, getPositionConverter } from './ChartTiming'
+
+/** The name of each vocal part in a .mid file */
+const partNames: { [part in VocalPart]: string } = {
+  vocals: 'PART VOCALS',
+  harm1: 'HARM1',
+  harm2: 'HARM2',
+  harm3: 'HARM3'
+}
+
+/**
+ * Scans the vocal tracks in `chartModel` to check that the lyrics line up with the phrases and notes.
+ * @returns a `VocalsData` object for each vocal track in `chartModel`.
+ */
+export function scanVocals(chartModel: ChartModel): VocalsData[] {
+  const getPosition = getPositionConverter(chartModel)
+  const lastInstrumentTick = chartModel.tracks.reduce((lastTick, track) => Math.max(lastTick, getLastNoteTick(track.notes)), 0)
+
+  return chartModel.vocalTracks.map(track => {
+    const lastTick = track.notes.length > 0 ? getLastNoteTick(track.notes) : lastInstrumentTick
+    return {
+      part: track.part,
+      lyricCount: track.lyrics.length,
+      phraseCount: track.phrases.length,
+      lyricsOutsidePhrases: track.lyrics.filter(lyric => !track.phrases.some(phrase => isInPhrase(lyric, phrase))).map(lyric => getPosition(lyric.tick)),
+      emptyPhrases: track.phrases.filter(phrase => !track.lyrics.some(lyric => isInPhrase(lyric, phrase))).map(phrase => getPosition(phrase.tick)),
+      unmatchedMarkers: getUnmatchedMarkers(track).map(lyric => getPosition(lyric.tick)),
+      lyricsAfterLastNote: track.lyrics.filter(lyric => lyric.tick > lastTick).map(lyric => getPosition(lyric.tick))
+    }
+  })
+}
+
+/**
+ * @returns the tick where the last note in `notes` ends, or 0 if `notes` is empty.
+ */
+function getLastNoteTick(notes: ChartPhrase[]) {
+  return notes.reduce((lastTick, note) => Math.max(lastTick, note.tick + note.length), 0)
+}
+
+/**
+ * @returns the issues found in `chartData.vocals`.
+ */
+export function getVocalsIssues(chartData: ChartData): ChartDataIssue[] {
+  const issues: ChartDataIssue[] = []
+  for (const vocals of chartData.vocals) {
+    const partName = partNames[vocals.part]
+    if (vocals.lyricsOutsidePhrases.length > 0) {
+      issues.push({
+        errorID: 'lyricsOutsidePhrases:' + vocals.part,
+        description: `${partName} has ${describePositions(vocals.lyricsOutsidePhrases, 'lyric')} outside of any phrase.`
+      })
+    }
+    if (vocals.emptyPhrases.length > 0) {
+      issues.push({
+        errorID: 'emptyLyricPhrases:' + vocals.part,
+        description: `${partName} has ${describePositions(vocals.emptyPhrases, 'phrase')} without any lyrics.`
+      })
+    }
+    if (vocals.unmatchedMarkers.length > 0) {
+      issues.push({
+        errorID: 'unmatchedLyricMarkers:' + vocals.part,
+        description: `${partName} has ${describePositions(vocals.unmatchedMarkers, 'lyric')} with a "+", "-", or "#" marker that doesn't connect to another syllable.`
+      })
+    }
+    if (vocals.lyricsAfterLastNote.length > 0) {
+      issues.push({
+        errorID: 'lyricsAfterLastNote:' + vocals.part,
+        description: `${partName} has ${describePositions(vocals.lyricsAfterLastNote, 'lyric')} after the last note.`
+      })
+    }
+  }
+
+  const harmonyParts = chartData.vocals.map(vocals => vocals.part).filter(part => part != 'vocals')
+  const missingParts = (['harm1', 'harm2', 'harm3'] as const).slice(0, harmonyParts.length).filter(part => !harmonyParts.includes(part))
+  if (missingParts.length > 0) {
+    issues.push({
+      errorID: 'incompleteHarmonies',
+      description: `This chart has ${harmonyParts.map(part => partNames[part]).join(', ')}, but not ${missingParts.map(part => partNames[part]).join(', ')}.`
+    })
+  }
+
+  return issues
+}
+
+/**
+ * @returns the lyrics in `track` with a syllable marker that is used incorrectly:
+ * - "+" (pitch slide) as the first syllable of a phrase, where there is no previous syllable to slide from.
+ * - "-" or "=" (joined syllable) at the end of the last syllable of a phrase, where there is no next syllable to join.
+ * - "#" or "^" (unpitched syllable) anywhere except the end of a syllable.
+ */
+function getUnmatchedMarkers(track: VocalTrack) {
+  const unmatchedMarkers: ChartEvent[] = []
+  for (const phrase of track.phrases) {
+    const lyrics = track.lyrics.filter(lyric => isInPhrase(lyric, phrase))
+    lyrics.forEach((lyric, i) => {
+      if (lyric.text == '+' && i == 0) {
+        unmatchedMarkers.push(lyric)
+      } else if (/[-=]$/.test(lyric.text) && i == lyrics.length - 1) {
+        unmatchedMarkers.push(lyric)
+      } else if (/[#^]/.test(lyric.text.replace(/[#^]+[-=]?$/, '')) || /^[#^]+$/.test(lyric.text)) {
+        unmatchedMarkers.push(lyric)
+      }
+    })
+  }
+
+  return unmatchedMarkers
+}
+
+/**
+ * @returns `true` if `lyric` is inside `phrase`.
+ */
+function isInPhrase(lyric: ChartEvent, phrase: ChartPhrase) {
+  return lyric.tick >= phrase.tick && (lyric.tick < phrase.tick + phrase.length || lyric.tick == phrase.tick)
+}
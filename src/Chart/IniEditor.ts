@@ -0,0 +1,141 @@
+import { decode, IniValue } from '../ini'
+import { getEncoding } from './ChartUtils'
+
+interface IniLine {
+
+  /** The text of the line, not including the line ending */
+  text: string
+
+  /** The line ending that followed this line in the original file (`''` for the last line) */
+  eol: string
+
+  /** The name of the section this line is in (`''` for lines before any sections) */
+  section: string
+
+  /** The key defined on this line, or `undefined` if this line is not a key/value pair */
+  key?: string
+}
+
+const sectionNameRegex = /\[(.+)]$/
+const keyValueRegex = /^(\s*[^=]*?\s*=\s*)(.*?)(\s*)$/
+
+/**
+ * Edits the contents of an .ini file without changing its comments, key order, duplicate keys, unknown keys, line endings, or encoding.
+ * Values are read using `decode`, so they are interpreted exactly like they are when the chart is scanned.
+ * Section names are matched case-insensitively, since CH accepts "[song]", "[Song]", and "[SONG]".
+ */
+export class IniEditor {
+
+  private lines: IniLine[]
+  private encoding: BufferEncoding
+
+  constructor(buffer: Buffer) {
+    this.encoding = getEncoding(buffer)
+
+    let section = ''
+    this.lines = buffer.toString(this.encoding).split(/(?<=\n)/).map(rawLine => {
+      const text = rawLine.replace(/\r?\n$/, '')
+      const line: IniLine = { text, eol: rawLine.substr(text.length), section }
+      const trimmed = text.trim()
+      if (trimmed.startsWith('[')) {
+        section = sectionNameRegex.exec(trimmed)?.[1].trim() ?? section
+        line.section = section
+      } else if (trimmed.includes('=') && !trimmed.startsWith(';')) {
+        line.key = trimmed.slice(0, trimmed.indexOf('=')).trim()
+      }
+      return line
+    })
+  }
+
+  /**
+   * @returns the value of `key` in `section`, or `undefined` if it is not defined.
+   * If `key` is defined multiple times, the last value is used.
+   */
+  get(section: string, key: string): IniValue | undefined {
+    const iniObject = decode(this.toString())
+    const sectionName = Object.keys(iniObject).find(name => name.toLowerCase() == section.toLowerCase())
+    return sectionName === undefined ? undefined : iniObject[sectionName][key]
+  }
+
+  /**
+   * @returns `true` if `key` is defined in `section`.
+   */
+  has(section: string, key: string) {
+    return this.get(section, key) !== undefined
+  }
+
+  /**
+   * Sets the value of `key` in `section` to `value`.
+   * If `key` is already defined, the last definition is changed in place. Otherwise, it is added to the end of `section`.
+   * @throws an exception if `section` does not exist.
+   */
+  set(section: string, key: string, value: IniValue) {
+    const index = this.findLastIndex(line => this.isInSection(line, section) && line.key == key)
+    if (index != -1) {
+      const line = this.lines[index]
+      line.text = line.text.replace(keyValueRegex, `$1${value.toString()}$3`)
+      return
+    }
+
+    const lastIndex = this.findLastIndex(line => this.isInSection(line, section) && line.text.trim() != '')
+    if (lastIndex == -1) { throw `The .ini file does not contain a [${section}] section.` }
+
+    const eol = this.lines.find(line => line.eol != '')?.eol ?? '\n'
+    const lastLine = this.lines[lastIndex]
+    const spaced = this.lines.some(line => line.key !== undefined && line.text.includes(' = '))
+    const newLine: IniLine = { text: `${key}${spaced ? ' = ' : '='}${value.toString()}`, eol: lastLine.eol, section: lastLine.section, key }
+    if (lastLine.eol == '') { lastLine.eol = eol }
+    this.lines.splice(lastIndex + 1, 0, newLine)
+  }
+
+  /**
+   * Removes every definition of `key` in `section`.
+   * @returns `true` if any lines were removed.
+   */
+  remove(section: string, key: string) {
+    const lineCount = this.lines.length
+    this.lines = this.lines.filter(line => !(this.isInSection(line, section) && line.key == key))
+    return this.lines.length != lineCount
+  }
+
+  /**
+   * Renames every definition of `oldKey` in `section` to `newKey`.
+   * @returns `true` if any lines were changed.
+   */
+  rename(section: string, oldKey: string, newKey: string) {
+    let changed = false
+    for (const line of this.lines) {
+      if (this.isInSection(line, section) && line.key == oldKey) {
+        line.text = line.text.replace(oldKey, newKey)
+        line.key = newKey
+        changed = true
+      }
+    }
+    return changed
+  }
+
+  /**
+   * @returns the edited .ini file's text.
+   */
+  toString() {
+    return this.lines.map(line => line.text + line.eol).join('')
+  }
+
+  /**
+   * @returns the edited .ini file, in the same encoding as the original file.
+   */
+  toBuffer() {
+    return Buffer.from(this.toString(), this.encoding)
+  }
+
+  private isInSection(line: IniLine, section: string) {
+    return line.section.toLowerCase() == section.toLowerCase()
+  }
+
+  private findLastIndex(predicate: (line: IniLine) => boolean) {
+    for (let i = this.lines.length - 1; i >= 0; i--) {
+      if (predicate(this.lines[i])) { return i }
+    }
+    return -1
+  }
+}
@@ -0,0 +1,265 @@
+import * as fs from 'fs'
+import { basename, dirname, join, parse, resolve } from 'path'
+import { promisify } from 'util'
+import sharp from 'sharp'
+import { cyan, yellow } from 'cli-color'
+import { ChartIssue } from '../Issues/IssueInterfaces'
+import { getJunkFileType, hasAlbumName, hasIniExtension, hasIniName } from '../Chart/ChartUtils'
+import { IniEditor } from '../Chart/IniEditor'
+import { Chart } from '../Chart/Chart'
+import { lower } from '../UtilFunctions'
+import { Progress } from '../ProgressBar'
+import { FIX_LOG_PATH } from '../paths'
+import { FixRecord } from './FixInterfaces'
+import { FixJournal } from './FixJournal'
+import { scanSettings } from '../ScanSettings'
+
+const readFile = promisify(fs.readFile)
+const readdir = promisify(fs.readdir)
+const appendFile = promisify(fs.appendFile)
+
+type FixFunction = (chartPath: string, filename: string, chart: Chart | undefined) => Promise<string | null>
+
+/**
+ * Automatically fixes the issues that can be fixed without any user input.
+ */
+export class ErrorFixer {
+
+  private records: FixRecord[] = []
+  private bar: Progress | undefined
+  private journal: FixJournal
+
+  /**
+   * Maps each fixable issue type to the function that fixes it.
+   * A fix function returns a description of the change it made, or `null` if the issue could not be fixed.
+   * (`chart` is `undefined` if the chart failed to scan)
+   * (The order of this object is the order fixes are applied in; e.g. .ini files are renamed before they are modified)
+   */
+  private fixFunctions: { [issueType: string]: FixFunction } = {
+    macosxFolder: this.deleteMacosxFolder.bind(this),
+    invalidChart: this.renameChart.bind(this),
+    invalidIni: this.renameIni.bind(this),
+    ignoredDuplicate: this.removeIgnoredDuplicate.bind(this),
+    fretsField: this.renameFretsField.bind(this),
+    redundantIcon: this.removeRedundantIcon.bind(this),
+    nonIntegerIniValue: this.roundIniValue.bind(this),
+    noSongLength: this.addSongLength.bind(this),
+    albumSize: this.resizeAlbumArt.bind(this),
+  }
+
+  /**
+   * @param dryRun If the planned file operations should be listed without being performed.
+   */
+  constructor(dryRun = scanSettings.fixDryRun, private logPath = FIX_LOG_PATH) {
+    this.journal = new FixJournal(dryRun ? null : getJournalPath())
+  }
+
+  /**
+   * Fixes every issue in `issues` that can be fixed automatically, and appends each fix to `this.logPath`.
+   * Every file operation is recorded in an undo journal next to `scanSettings.chartFolderPath`.
+   * If this is a dry run, the file operations are listed instead.
+   * @returns a `FixRecord` for each fix that was made (or would have been made, for a dry run).
+   */
+  async fixErrors(issues: ChartIssue[], charts: Chart[]) {
+    const chartMap: { [chartPath: string]: Chart } = {}
+    for (const chart of charts) {
+      chartMap[chart.filepath] = chart
+    }
+
+    const fixTypes = Object.keys(this.fixFunctions)
+    const fixableIssues = issues
+      .filter(issue => fixTypes.includes(getIssueType(issue)))
+      .sort((a, b) => fixTypes.indexOf(getIssueType(a)) - fixTypes.indexOf(getIssueType(b)))
+
+    const bar = this.bar = new Progress('Fixing Errors', fixableIssues.length)
+    for (const issue of fixableIssues) {
+      bar.increment(issue.errorID)
+      try {
+        const action = await this.fixFunctions[getIssueType(issue)](issue.chartPath, getIssueFilename(issue), chartMap[issue.chartPath])
+        if (action !== null) {
+          this.records.push({ chartPath: issue.chartPath, errorID: issue.errorID, action })
+        }
+      } catch (err) {
+        bar.log(yellow(`WARNING: Failed to fix "${issue.errorID}" in [${issue.chartPath}]: ${err}`))
+      }
+    }
+    bar.terminate()
+
+    if (this.journal.isDryRun) {
+      this.printPlannedOperations()
+    } else {
+      await this.writeLog()
+    }
+    return this.records
+  }
+
+  /**
+   * Prints every file operation that would have been performed if this wasn't a dry run.
+   */
+  private printPlannedOperations() {
+    console.log(`Dry run: ${this.journal.operations.length} file operation${this.journal.operations.length == 1 ? '' : 's'} planned.`)
+    for (const operation of this.journal.operations) {
+      console.log(`  ${operation}`)
+    }
+  }
+
+  /**
+   * Appends `this.records` to the fix log at `this.logPath`.
+   */
+  private async writeLog() {
+    if (this.records.length == 0) { return }
+
+    const timestamp = new Date().toISOString()
+    const lines = this.records.map(record => `[${timestamp}] [${record.chartPath}] ${record.errorID}: ${record.action}`)
+    await appendFile(this.logPath, lines.join('\n') + '\n')
+    console.log(`${this.records.length} fix${this.records.length == 1 ? '' : 'es'} made. (see [${this.logPath}] for details)`)
+    console.log(`To undo these fixes, run this program with the arguments: --undo "${cyan(this.journal.journalPath)}"`)
+  }
+
+  /**
+   * Deletes the "__MACOSX" folder in `chartPath`.
+   */
+  private async deleteMacosxFolder(chartPath: string) {
+    await this.journal.deleteFolder(join(chartPath, '__MACOSX'))
+    return `Deleted "__MACOSX".`
+  }
+
+  /**
+   * Renames the chart file `filename` in `chartPath` to "notes.chart" or "notes.mid".
+   */
+  private async renameChart(chartPath: string, filename: string) {
+    return this.renameFile(chartPath, filename, `notes${lower(parse(filename).ext)}`)
+  }
+
+  /**
+   * Renames the .ini file `filename` in `chartPath` to "song.ini".
+   * (Junk files like "desktop.ini" are not renamed, because they don't contain chart metadata)
+   */
+  private async renameIni(chartPath: string, filename: string) {
+    if (getJunkFileType(filename) !== undefined) { return null }
+    return this.renameFile(chartPath, filename, 'song.ini')
+  }
+
+  /**
+   * Removes the `ignored_` field `key` from the .ini file in `chartPath`.
+   */
+  private async removeIgnoredDuplicate(chartPath: string, key: string) {
+    return this.editIni(chartPath, editor => editor.remove('song', key) ? `Removed "${key}"` : null)
+  }
+
+  /**
+   * Replaces the legacy `frets` field with `charter` in the .ini file in `chartPath`.
+   * (`charter` is used if both are defined)
+   */
+  private async renameFretsField(chartPath: string) {
+    return this.editIni(chartPath, editor => {
+      if (editor.has('song', 'charter')) {
+        return editor.remove('song', 'frets') ? `Removed "frets" (a duplicate of "charter")` : null
+      } else {
+        return editor.rename('song', 'frets', 'charter') ? `Renamed "frets" to "charter"` : null
+      }
+    })
+  }
+
+  /**
+   * Removes the `icon` field from the .ini file in `chartPath`.
+   */
+  private async removeRedundantIcon(chartPath: string) {
+    return this.editIni(chartPath, editor => editor.remove('song', 'icon') ? `Removed "icon"` : null)
+  }
+
+  /**
+   * Rounds the value of `key` in the .ini file in `chartPath` to the nearest integer.
+   */
+  private async roundIniValue(chartPath: string, key: string) {
+    return this.editIni(chartPath, editor => {
+      const value = editor.get('song', key)
+      if (typeof value !== 'number' || Math.round(value) === value) { return null }
+
+      editor.set('song', key, Math.round(value))
+      return `Rounded "${key}" from ${value} to ${Math.round(value)}`
+    })
+  }
+
+  /**
+   * Sets `song_length` in the .ini file in `chartPath` to the length of `chart`.
+   */
+  private async addSongLength(chartPath: string, _: string, chart: Chart | undefined) {
+    if (!chart || chart.chartData.length <= 0) { return null }
+
+    const songLength = chart.chartData.length * 1000
+    return this.editIni(chartPath, editor => {
+      editor.set('song', 'song_length', songLength)
+      return `Set "song_length" to ${songLength}`
+    })
+  }
+
+  /**
+   * Applies `edit` to the .ini file in `chartPath`, and saves the result if `edit` returns a description of the change.
+   * @returns that description, or `null` if nothing was changed.
+   */
+  private async editIni(chartPath: string, edit: (editor: IniEditor) => string | null) {
+    const files = await readdir(chartPath)
+    const iniName = files.find(hasIniName) ?? files.find(file => hasIniExtension(file) && getJunkFileType(file) === undefined)
+    if (iniName === undefined) { return null }
+
+    const iniPath = join(chartPath, iniName)
+    const editor = new IniEditor(await readFile(iniPath))
+    const action = edit(editor)
+    if (action === null) { return null }
+
+    await this.journal.rewrite(iniPath, editor.toBuffer())
+    return `${action} in "${iniName}".`
+  }
+
+  /**
+   * Resizes the album art `filename` in `chartPath` to 500x500.
+   */
+  private async resizeAlbumArt(chartPath: string, filename: string) {
+    if (!hasAlbumName(filename)) { return null }
+
+    const albumPath = join(chartPath, filename)
+    const image = sharp(await readFile(albumPath)).resize(500, 500)
+    const buffer = await (parse(filename).ext == '.png' ? image.png() : image.jpeg({ quality: 75 })).toBuffer()
+    await this.journal.rewrite(albumPath, buffer)
+    return `Resized "${filename}" to 500x500.`
+  }
+
+  /**
+   * Renames `oldName` to `newName` in `chartPath`, unless a different file is already named `newName`.
+   */
+  private async renameFile(chartPath: string, oldName: string, newName: string) {
+    const files = await readdir(chartPath)
+    if (!files.includes(oldName)) { return null }
+    if (files.some(file => file != oldName && lower(file) == lower(newName))) {
+      this.bar?.log(yellow(`WARNING: Did not rename "${oldName}" in [${chartPath}] because "${newName}" already exists.`))
+      return null
+    }
+
+    await this.journal.rename(join(chartPath, oldName), join(chartPath, newName))
+    return `Renamed "${oldName}" to "${newName}".`
+  }
+}
+
+/**
+ * @returns a path for a new undo journal in the same folder as `scanSettings.chartFolderPath`.
+ */
+function getJournalPath() {
+  const chartFolderPath = resolve(scanSettings.chartFolderPath)
+  const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0]
+  return join(dirname(chartFolderPath), `${basename(chartFolderPath)} undo journal ${timestamp}.jsonl`)
+}
+
+/**
+ * @returns the part of `issue.errorID` that identifies the type of issue. (e.g. "invalidAudio:guitar.mp3" -> "invalidAudio")
+ */
+function getIssueType(issue: ChartIssue) {
+  return issue.errorID.split(':')[0]
+}
+
+/**
+ * @returns the part of `issue.errorID` after the issue type, or `''` if it doesn't have one. (e.g. "invalidAudio:guitar.mp3" -> "guitar.mp3")
+ */
+function getIssueFilename(issue: ChartIssue) {
+  return issue.errorID.split(':').slice(1).join(':')
+}
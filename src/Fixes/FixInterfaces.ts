@@ -0,0 +1,48 @@
+export interface FixRecord {
+
+  /** The path to the folder where the fix was made */
+  chartPath: string
+
+  /** The `errorID` of the issue that was fixed */
+  errorID: string
+
+  /** A description of what was changed to fix the issue */
+  action: string
+}
+
+export type JournalEntry = RenameEntry | RewriteEntry | DeleteFolderEntry
+
+export interface RenameEntry {
+  type: 'rename'
+  /** The original path of the file */
+  from: string
+  /** The new path of the file */
+  to: string
+}
+
+export interface RewriteEntry {
+  type: 'rewrite'
+  /** The path of the file that was rewritten */
+  path: string
+  /** The original contents of the file (base64) */
+  originalData: string
+  /** The original modification time of the file, in ms */
+  mtime: number
+}
+
+export interface DeleteFolderEntry {
+  type: 'deleteFolder'
+  /** The path of the folder that was deleted */
+  path: string
+  /** Every file and folder that was inside `path` */
+  contents: JournalFolderItem[]
+}
+
+export interface JournalFolderItem {
+  /** The path of this item, relative to the deleted folder */
+  relativePath: string
+  /** The original contents of the file (base64), or `null` if this item is a folder */
+  data: string | null
+  /** The original modification time of the item, in ms */
+  mtime: number
+}
@@ -0,0 +1,158 @@
+import * as fs from 'fs'
+import { join, relative } from 'path'
+import { promisify } from 'util'
+import { cyan, green, redBright, yellow } from 'cli-color'
+import * as mkdirp from 'mkdirp'
+import { JournalEntry, JournalFolderItem } from './FixInterfaces'
+
+const readFile = promisify(fs.readFile)
+const writeFile = promisify(fs.writeFile)
+const appendFile = promisify(fs.appendFile)
+const rename = promisify(fs.rename)
+const stat = promisify(fs.stat)
+const utimes = promisify(fs.utimes)
+
+/**
+ * Performs the file operations for auto-fixes, and records how to undo each of them.
+ * The journal is written as one JSON `JournalEntry` per line, so it stays valid if the scanner is closed partway through.
+ */
+export class FixJournal {
+
+  /** A description of each operation, in the order they were performed (or planned, for a dry run) */
+  operations: string[] = []
+
+  /**
+   * @param journalPath The path where the undo journal is written, or `null` for a dry run. (no files will be changed)
+   */
+  constructor(readonly journalPath: string | null) { }
+
+  get isDryRun() {
+    return this.journalPath === null
+  }
+
+  /**
+   * Renames the file at `from` to `to`.
+   */
+  async rename(from: string, to: string) {
+    this.operations.push(`Rename [${from}] to [${to}]`)
+    if (this.journalPath === null) { return }
+
+    await this.addEntry({ type: 'rename', from, to })
+    await rename(from, to)
+  }
+
+  /**
+   * Replaces the contents of the file at `path` with `data`.
+   */
+  async rewrite(path: string, data: Buffer) {
+    this.operations.push(`Rewrite [${path}]`)
+    if (this.journalPath === null) { return }
+
+    const originalData = await readFile(path)
+    await this.addEntry({ type: 'rewrite', path, originalData: originalData.toString('base64'), mtime: (await stat(path)).mtimeMs })
+    await writeFile(path, data)
+  }
+
+  /**
+   * Deletes the folder at `path` and everything inside it.
+   */
+  async deleteFolder(path: string) {
+    this.operations.push(`Delete [${path}]`)
+    if (this.journalPath === null) { return }
+
+    await this.addEntry({ type: 'deleteFolder', path, contents: await getFolderContents(path) })
+    fs.rmSync(path, { recursive: true, force: true })
+  }
+
+  /**
+   * Appends `entry` to the journal. This happens before the operation is performed, so the journal is never missing an operation.
+   */
+  private async addEntry(entry: JournalEntry) {
+    await appendFile(this.journalPath!, JSON.stringify(entry) + '\n')
+  }
+}
+
+/**
+ * @returns a `JournalFolderItem` for every file and folder under `folderPath`. (parent folders are listed before their contents)
+ */
+async function getFolderContents(folderPath: string, currentPath = folderPath) {
+  const items: JournalFolderItem[] = []
+  for (const file of fs.readdirSync(currentPath, { withFileTypes: true })) {
+    const filePath = join(currentPath, file.name)
+    const relativePath = relative(folderPath, filePath)
+    const mtime = (await stat(filePath)).mtimeMs
+    if (file.isDirectory()) {
+      items.push({ relativePath, data: null, mtime })
+      items.push(...await getFolderContents(folderPath, filePath))
+    } else {
+      items.push({ relativePath, data: (await readFile(filePath)).toString('base64'), mtime })
+    }
+  }
+
+  return items
+}
+
+/**
+ * Reverts every operation recorded in the undo journal at `journalPath`, in reverse order.
+ * @throws an exception if the journal could not be read.
+ */
+export async function undoJournal(journalPath: string) {
+  let entries: JournalEntry[]
+  try {
+    entries = (await readFile(journalPath, 'utf8')).split('\n').filter(line => line.trim() != '').map(line => JSON.parse(line))
+  } catch (err) {
+    throw `Error: Failed to read the undo journal at [${journalPath}]: ${err}`
+  }
+
+  let failCount = 0
+  for (const entry of entries.reverse()) {
+    try {
+      await undoEntry(entry)
+    } catch (err) {
+      failCount++
+      console.log(redBright(`Error: Failed to undo the operation on [${entry.type == 'rename' ? entry.to : entry.path}]:`), err)
+    }
+  }
+
+  console.log(green(`${entries.length - failCount} operation${entries.length - failCount == 1 ? '' : 's'} undone from [${cyan(journalPath)}].`))
+  if (failCount > 0) {
+    console.log(yellow(`${failCount} operation${failCount == 1 ? '' : 's'} could not be undone.`))
+  }
+}
+
+/**
+ * Reverts the operation recorded in `entry`.
+ * @throws an exception if the operation could not be reverted.
+ */
+async function undoEntry(entry: JournalEntry) {
+  switch (entry.type) {
+    case 'rename': {
+      if (fs.existsSync(entry.from) && entry.from.toLowerCase() != entry.to.toLowerCase()) {
+        throw `[${entry.from}] already exists.`
+      }
+      await rename(entry.to, entry.from)
+      break
+    }
+    case 'rewrite': {
+      await writeFile(entry.path, Buffer.from(entry.originalData, 'base64'))
+      await utimes(entry.path, new Date(entry.mtime), new Date(entry.mtime))
+      break
+    }
+    case 'deleteFolder': {
+      mkdirp.sync(entry.path)
+      for (const item of entry.contents) {
+        const itemPath = join(entry.path, item.relativePath)
+        if (item.data === null) {
+          mkdirp.sync(itemPath)
+        } else {
+          await writeFile(itemPath, Buffer.from(item.data, 'base64'))
+        }
+      }
+      for (const item of entry.contents.slice().reverse()) { // Set folder times after their contents are written
+        const itemPath = join(entry.path, item.relativePath)
+        await utimes(itemPath, new Date(item.mtime), new Date(item.mtime))
+      }
+      break
+    }
+  }
+}
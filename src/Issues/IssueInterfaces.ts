@@ -0,0 +1,33 @@
+import { DriveChart } from '../Drive/DriveInterfaces'
+
+export interface ChartIssue {
+
+  /** The path to the folder where the issue was found */
+  chartPath: string
+
+  /** The name of the source folder that contains `chartPath` */
+  sourceName: string
+
+  /** The object that holds the chart's download links and Google Drive data, if the chart was downloaded */
+  driveChart: DriveChart | undefined
+
+  /** Identifies the type of issue, optionally followed by a colon and the name of the file that caused it (e.g. "invalidAudio:guitar.mp3") */
+  errorID: string
+
+  /** A description of the issue that can be displayed to the user */
+  description: string
+}
+
+export interface ChartIssueMap {
+  [sourceName: string]: {
+    [chartPath: string]: ChartIssue[]
+  }
+}
+
+/**
+ * An issue derived from a chart's `ChartData`, before it is associated with a chart folder.
+ */
+export interface ChartDataIssue {
+  errorID: string
+  description: string
+}
@@ -0,0 +1,102 @@
+import { cyan, redBright, yellow } from 'cli-color'
+import { Chart } from '../Chart/Chart'
+import { DriveChart } from '../Drive/DriveInterfaces'
+import { driveLink } from '../UtilFunctions'
+import { ChartIssue, ChartIssueMap } from './IssueInterfaces'
+
+/**
+ * Collects every issue found during the scan.
+ */
+export class IssueRegistry {
+
+  private issues: ChartIssue[] = []
+  private issueKeys = new Set<string>()
+  private chartIssues: { [chartPath: string]: ChartIssue[] } = {}
+
+  /**
+   * Adds an issue for `chart` with `errorID` and `description`.
+   */
+  addError(chart: Chart, errorID: string, description: string) {
+    this.addIncompleteError(chart.driveData, chart.sourceName, errorID, chart.filepath, description)
+  }
+
+  /**
+   * Adds an issue for the chart at `chartPath` with `errorID` and `description`.
+   * (Used when a `Chart` object has not been constructed yet)
+   * Issues with an `errorID` that was already added for `chartPath` are ignored.
+   */
+  addIncompleteError(driveChart: DriveChart | undefined, sourceName: string, errorID: string, chartPath: string, description: string) {
+    const key = `${chartPath}\n${errorID}`
+    if (this.issueKeys.has(key)) { return }
+
+    const issue = { chartPath, sourceName, driveChart, errorID, description }
+    const chartIssues = this.chartIssues[chartPath] ??= []
+    this.issueKeys.add(key)
+    this.issues.push(issue)
+    chartIssues.push(issue)
+  }
+
+  /**
+   * @returns `true` if any issues have been added for the chart at `chartPath`.
+   */
+  hasIssues(chartPath: string) {
+    return this.chartIssues[chartPath] !== undefined
+  }
+
+  /**
+   * @returns every issue that has been added so far for the chart at `chartPath`.
+   */
+  getChartIssues(chartPath: string) {
+    return (this.chartIssues[chartPath] ?? []).slice()
+  }
+
+  /**
+   * @returns every issue that has been added so far.
+   */
+  getIssues() {
+    return this.issues.slice()
+  }
+
+  /**
+   * Removes every issue that has been added so far.
+   */
+  clear() {
+    this.issues = []
+    this.issueKeys.clear()
+    this.chartIssues = {}
+  }
+
+  /**
+   * @returns every issue that has been added so far, grouped by source and chart folder.
+   */
+  getIssueMap() {
+    const issueMap: ChartIssueMap = {}
+    for (const issue of this.issues) {
+      ((issueMap[issue.sourceName] ??= {})[issue.chartPath] ??= []).push(issue)
+    }
+
+    return issueMap
+  }
+
+  /**
+   * Prints every issue that has been added so far, grouped by source and chart folder.
+   */
+  printIssues() {
+    const issueMap = this.getIssueMap()
+    for (const sourceName in issueMap) {
+      console.log(`\n[${cyan(sourceName)}]`)
+      for (const chartPath in issueMap[sourceName]) {
+        const issues = issueMap[sourceName][chartPath]
+        const driveChart = issues[0].driveChart
+        console.log(yellow(driveChart ? `${chartPath} (${driveLink(driveChart.folderID)})` : chartPath))
+        for (const issue of issues) {
+          console.log(`  ${redBright(issue.errorID)}: ${issue.description}`)
+        }
+      }
+    }
+
+    console.log(`\n${this.issues.length} issue${this.issues.length == 1 ? '' : 's'} found.`)
+  }
+}
+
+export const issueRegistry = new IssueRegistry()
@@ -0,0 +1,140 @@
+import * as fs from 'fs'
+import { promisify } from 'util'
+import { Chart } from '../Chart/Chart'
+import { AudioStem, ChartData, ChartMetadata } from '../Chart/ChartInterfaces'
+import { DriveChart } from '../Drive/DriveInterfaces'
+import { issueRegistry } from '../Issues/IssueRegistry'
+import { ChartIssue } from '../Issues/IssueInterfaces'
+import { CSV_REPORT_PATH, JSON_REPORT_PATH } from '../paths'
+import { driveLink } from '../UtilFunctions'
+
+const writeFile = promisify(fs.writeFile)
+
+/** Increment this when the structure of `ScanResultsDocument` changes in a way that could break existing consumers. */
+export const SCAN_RESULTS_VERSION = 1
+
+export interface ScanResultsDocument {
+
+  /** The version of this document's structure */
+  version: number
+
+  /** The time the document was generated (ISO 8601) */
+  generatedAt: string
+
+  /** Every chart that was successfully scanned */
+  charts: ExportedChart[]
+
+  /** Issues for chart folders that failed to scan, so they don't have an entry in `charts` */
+  unscannedChartIssues: ExportedIssue[]
+}
+
+export interface ExportedChart {
+  sourceName: string
+  filepath: string
+  files: string[]
+  driveData: DriveChart | null
+  chartMetadata: ChartMetadata
+  chartData: ChartData
+  audioStems: AudioStem[]
+  /** ISO 8601 */
+  lastModified: string | null
+  issues: ExportedIssue[]
+}
+
+export interface ExportedIssue {
+  sourceName: string
+  chartPath: string
+  errorID: string
+  description: string
+  /** The link to the chart's Google Drive folder, or `null` if the chart was not downloaded */
+  driveLink: string | null
+}
+
+/**
+ * Writes a `ScanResultsDocument` for `charts` and every issue in `issueRegistry` to `reportPath` as JSON.
+ * @returns the path to the generated file.
+ * @throws an exception if the file could not be written.
+ */
+export async function writeJsonReport(charts: Chart[], reportPath = JSON_REPORT_PATH) {
+  const issueMap: { [chartPath: string]: ExportedIssue[] } = {}
+  for (const issue of issueRegistry.getIssues()) {
+    (issueMap[issue.chartPath] ??= []).push(exportIssue(issue))
+  }
+
+  const exportedCharts = charts.map(chart => {
+    const exportedChart: ExportedChart = {
+      sourceName: chart.sourceName,
+      filepath: chart.filepath,
+      files: chart.files.map(file => file.name),
+      driveData: chart.driveData ?? null,
+      chartMetadata: chart.chartMetadata,
+      chartData: chart.chartData,
+      audioStems: chart.audioStems,
+      lastModified: chart.lastModified?.toISOString() ?? null,
+      issues: issueMap[chart.filepath] ?? []
+    }
+    delete issueMap[chart.filepath]
+    return exportedChart
+  })
+
+  const document: ScanResultsDocument = {
+    version: SCAN_RESULTS_VERSION,
+    generatedAt: new Date().toISOString(),
+    charts: exportedCharts,
+    unscannedChartIssues: Object.values(issueMap).flat()
+  }
+
+  await writeFile(reportPath, JSON.stringify(document, null, 2))
+  return reportPath
+}
+
+/**
+ * Writes every issue in `issueRegistry` to `reportPath` as CSV, with one row per issue.
+ * @returns the path to the generated file.
+ * @throws an exception if the file could not be written.
+ */
+export async function writeCsvReport(charts: Chart[], reportPath = CSV_REPORT_PATH) {
+  const chartMap: { [chartPath: string]: Chart } = {}
+  for (const chart of charts) {
+    chartMap[chart.filepath] = chart
+  }
+
+  const rows = [['Source', 'Chart Path', 'Artist', 'Name', 'Charter', 'Error ID', 'Description', 'Drive Link']]
+  for (const issue of issueRegistry.getIssues()) {
+    const metadata = chartMap[issue.chartPath]?.chartMetadata
+    rows.push([
+      issue.sourceName,
+      issue.chartPath,
+      metadata?.artist ?? '',
+      metadata?.name ?? '',
+      metadata?.charter ?? '',
+      issue.errorID,
+      issue.description,
+      issue.driveChart ? driveLink(issue.driveChart.folderID) : ''
+    ])
+  }
+
+  // The BOM lets spreadsheet programs detect that the file is UTF-8
+  await writeFile(reportPath, '\uFEFF' + rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n')
+  return reportPath
+}
+
+/**
+ * @returns `issue` without its `DriveChart` object (which is replaced by a link to the chart's folder).
+ */
+function exportIssue(issue: ChartIssue): ExportedIssue {
+  return {
+    sourceName: issue.sourceName,
+    chartPath: issue.chartPath,
+    errorID: issue.errorID,
+    description: issue.description,
+    driveLink: issue.driveChart ? driveLink(issue.driveChart.folderID) : null
+  }
+}
+
+/**
+ * @returns `field` quoted and escaped as a CSV field, if necessary.
+ */
+function escapeCsvField(field: string) {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+}
@@ -0,0 +1,138 @@
+import * as fs from 'fs'
+import { promisify } from 'util'
+import { Chart } from '../Chart/Chart'
+import { issueRegistry } from '../Issues/IssueRegistry'
+import { ChartIssue } from '../Issues/IssueInterfaces'
+import { HTML_REPORT_PATH } from '../paths'
+import { driveLink } from '../UtilFunctions'
+
+const writeFile = promisify(fs.writeFile)
+
+/**
+ * Generates a standalone .html file that lists every issue in `issueRegistry`, grouped by source and by chart.
+ * @returns the path to the generated file.
+ * @throws an exception if the file could not be written.
+ */
+export async function writeHtmlReport(charts: Chart[], reportPath = HTML_REPORT_PATH) {
+  const chartMap: { [chartPath: string]: Chart } = {}
+  const albumArtMap: { [chartPath: string]: string } = {}
+  for (const chart of charts) {
+    chartMap[chart.filepath] = chart
+    if (issueRegistry.hasIssues(chart.filepath)) { // Only charts with issues are displayed
+      const albumArt = await chart.getAlbumArt()
+      if (albumArt !== null) {
+        albumArtMap[chart.filepath] = `data:image/jpeg;base64,${albumArt.toString('base64')}`
+      }
+    }
+  }
+
+  const issueMap = issueRegistry.getIssueMap()
+  const sourceBlocks: string[] = []
+  let issueCount = 0
+  for (const sourceName of Object.keys(issueMap).sort()) {
+    const chartBlocks: string[] = []
+    for (const chartPath of Object.keys(issueMap[sourceName]).sort()) {
+      const issues = issueMap[sourceName][chartPath]
+      issueCount += issues.length
+      chartBlocks.push(getChartBlock(chartPath, chartMap[chartPath], albumArtMap[chartPath], issues))
+    }
+    sourceBlocks.push(`
+    <section class="source">
+      <h2>${escapeHtml(sourceName)} <span class="count">${chartBlocks.length} chart${chartBlocks.length == 1 ? '' : 's'} with issues</span></h2>
+      ${chartBlocks.join('\n')}
+    </section>`)
+  }
+
+  await writeFile(reportPath, getPage(charts.length, issueCount, sourceBlocks.join('\n')))
+  return reportPath
+}
+
+/**
+ * @returns the HTML for the card that displays `issues` for the chart at `chartPath`.
+ * `chart` is `undefined` if the chart failed to scan.
+ */
+function getChartBlock(chartPath: string, chart: Chart | undefined, albumArt: string | undefined, issues: ChartIssue[]) {
+  const driveChart = issues[0].driveChart
+  const metadata = chart?.chartMetadata
+  const title = metadata ? `"${metadata.artist}" - "${metadata.name}" (${metadata.charter})` : chartPath
+  const link = driveChart
+    ? `<a class="button" href="${escapeHtml(driveLink(driveChart.folderID))}" target="_blank">Open in Google Drive</a>`
+    : `<button class="button" data-path="${escapeHtml(chartPath)}" onclick="copyPath(this)">Copy folder path</button>`
+
+  return `
+      <div class="chart">
+        ${albumArt ? `<img class="album" src="${albumArt}" alt="">` : '<div class="album missing"></div>'}
+        <div class="details">
+          <h3>${escapeHtml(title)}</h3>
+          <div class="path">${escapeHtml(chartPath)}</div>
+          ${link}
+          <ul>
+            ${issues.map(issue => `<li><span class="error-id">${escapeHtml(issue.errorID)}</span> ${escapeHtml(issue.description)}</li>`).join('\n            ')}
+          </ul>
+        </div>
+      </div>`
+}
+
+/**
+ * @returns the full HTML document for the report.
+ */
+function getPage(chartCount: number, issueCount: number, body: string) {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Bridge Error Scanner Report</title>
+  <style>
+    body { margin: 0; background: #1b1c1d; color: #e0e0e0; font-family: Lato, "Helvetica Neue", Arial, sans-serif; }
+    header { padding: 16px 32px; background: #2d2e2f; border-bottom: 2px solid #6435c9; }
+    header h1 { margin: 0; font-size: 24px; }
+    header .summary { color: #a0a0a0; }
+    main { padding: 16px 32px; }
+    h2 { border-bottom: 1px solid #444; padding-bottom: 4px; }
+    .count { font-size: 14px; font-weight: normal; color: #a0a0a0; }
+    .chart { display: flex; margin: 12px 0; padding: 12px; background: #2d2e2f; border-radius: 4px; }
+    .album { width: 120px; height: 120px; flex-shrink: 0; margin-right: 16px; border-radius: 4px; }
+    .album.missing { background: #444; }
+    .details { flex-grow: 1; min-width: 0; }
+    .details h3 { margin: 0 0 4px 0; }
+    .path { color: #a0a0a0; font-size: 12px; overflow-wrap: anywhere; margin-bottom: 8px; }
+    .button { display: inline-block; padding: 4px 10px; border: none; border-radius: 4px; background: #6435c9; color: #fff;
+      font-size: 13px; text-decoration: none; cursor: pointer; }
+    .button:hover { background: #7d4fe0; }
+    ul { margin: 8px 0 0 0; padding-left: 20px; }
+    .error-id { color: #ff8a80; font-family: Consolas, monospace; margin-right: 6px; }
+  </style>
+  <script>
+    function copyPath(button) {
+      navigator.clipboard.writeText(button.dataset.path).then(function () {
+        button.textContent = 'Copied!'
+        setTimeout(function () { button.textContent = 'Copy folder path' }, 1500)
+      })
+    }
+  </script>
+</head>
+<body>
+  <header>
+    <h1>Bridge Error Scanner Report</h1>
+    <div class="summary">${chartCount} chart${chartCount == 1 ? '' : 's'} scanned, ${issueCount} issue${issueCount == 1 ? '' : 's'} found
+      (generated ${escapeHtml(new Date().toLocaleString())})</div>
+  </header>
+  <main>
+    ${body || '<p>No issues were found.</p>'}
+  </main>
+</body>
+</html>
+`
+}
+
+/**
+ * @returns `text` with all HTML special characters escaped.
+ */
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
@@ -2,10 +2,13 @@ import { existsSync, readFileSync, writeFileSync } from 'fs'
 import { green, redBright } from 'cli-color'
 import childProcess from 'child_process'
 import { keyInPause } from 'readline-sync'
+import { cpus } from 'os'
+import { isMainThread, workerData } from 'worker_threads'
 import { $Errors, decode, IIniObject, IIniObjectSection } from './ini'
 import { SETTINGS_PATH, SNAPSHOT_SETTINGS_PATH } from './paths'
+import { defaultMetadata, metadataRuleIDs } from './Chart/ChartInterfaces'
 import { parseDriveLink, parseDriveLinksText, parseExistingFilepath, parseFilepath, parseInt } from './UtilFunctions'
-export const scanSettings: ScanSettings = readSettings()
+export const scanSettings: ScanSettings = isMainThread ? readSettings() : workerData.scanSettings // Workers use the main thread's settings
 
 export interface ScanSettings {
 
@@ -21,9 +24,27 @@ export interface ScanSettings {
   /** If the charts in "chartFolderPath" should be automatically fixed if possible. */
   fixErrors: boolean
 
+  /** If "fixErrors" should only list the file operations it would perform, without changing any files. */
+  fixDryRun: boolean
+
+  /** The path to an undo journal created by "fixErrors". If specified, the journal is undone instead of running a scan. */
+  undoJournalPath?: string
+
   /** Downloads for files will be skipped if they are larger than this. Set to -1 for no limit. (Units are Megabytes) */
   maxDownloadSizeMB: number
 
+  /** The number of charts that are parsed at the same time, in separate threads. */
+  workerCount: number
+
+  /** Only parse the chart folders that have changed since the last scan. The results of the last scan are cached in "chartFolderPath". */
+  useScanCache: boolean
+
+  /** The song.ini fields that every chart should have. An error will be generated for each of these that is missing. */
+  requiredMetadataFields: string[]
+
+  /** The metadata rules that shouldn't generate errors. */
+  disabledMetadataRules: string[]
+
   /** Download the contents of multiple Google Drive folders. Drive links will be parsed from the clipboard. */
   clipboardLinksMode: boolean
 
@@ -50,7 +71,12 @@ const defaultSettings: ScanSettings = {
   chartFolderPath: '.',
   sevenZipPath: 'C:/Program Files/7-Zip/7z.exe',
   fixErrors: false,
+  fixDryRun: false,
   maxDownloadSizeMB: -1,
+  workerCount: Math.max(1, cpus().length),
+  useScanCache: true,
+  requiredMetadataFields: ['name', 'artist', 'charter', 'album', 'genre', 'year'],
+  disabledMetadataRules: [],
   clipboardLinksMode: false,
   minimumChartCount: 0,
   seriousErrorThreshold: -1,
@@ -72,6 +98,10 @@ function getSettings(settings: Partial<ScanSettings> = defaultSettings): ScanSet
  */
 function readSettings() {
   try {
+    if (process.argv[2] == '--undo') {
+      return getUndoArgsSettings()
+    }
+
     if (process.argv[3]) {
       throw 'Error: Too many arguments were provided. If a filepath has spaces in it, the path must be surrounded by double quotes.'
     }
@@ -104,6 +134,21 @@ function getCommandLineArgsSettings() {
   }
 }
 
+/**
+ * @returns `ScanSettings` that are determined using the "--undo <journal>" command line arguments
+ */
+function getUndoArgsSettings() {
+  if (process.argv[4]) {
+    throw 'Error: Too many arguments were provided. If a filepath has spaces in it, the path must be surrounded by double quotes.'
+  }
+
+  const undoJournalPath = parseExistingFilepath(process.argv[3] ?? '')
+  if (undoJournalPath === null) {
+    throw `Error: "--undo" must be followed by the path to an existing undo journal.`
+  }
+  return getSettings({ undoJournalPath })
+}
+
 /**
  * @returns `ScanSettings` that are determined using the settings.ini file, and possibly using the
  * clipboard if `clipboardLinksMode` is true.
@@ -154,7 +199,15 @@ function validateSettings(settingsIni: IIniObject) {
   settings.chartFolderPath = readGeneralProperty('chartFolderPath', '', 'file path', parseFilepath)
   settings.sevenZipPath = readGeneralProperty('sevenZipPath', '', 'file path', parseExistingFilepath)
   settings.fixErrors = readGeneralProperty('fixErrors', false, 'boolean value')
+  settings.fixDryRun = readGeneralProperty('fixDryRun', false, 'boolean value')
   settings.maxDownloadSizeMB = readGeneralProperty('maxDownloadSizeMB', 0, 'number', parseInt)
+  const workerCount = readGeneralProperty('workerCount', 0, 'integer', parseInt)
+  settings.workerCount = workerCount === undefined || workerCount > 0 ? workerCount : Math.max(1, cpus().length)
+  settings.useScanCache = readGeneralProperty('useScanCache', false, 'boolean value')
+  const requiredMetadataFields = readGeneralProperty('requiredMetadataFields', '', 'list of song.ini fields')
+  settings.requiredMetadataFields = parseListSetting('requiredMetadataFields', requiredMetadataFields, Object.keys(defaultMetadata))
+  const disabledMetadataRules = readGeneralProperty('disabledMetadataRules', '', 'list of metadata rules')
+  settings.disabledMetadataRules = parseListSetting('disabledMetadataRules', disabledMetadataRules, metadataRuleIDs)
 
   if (chorusSection) {
     const readChorusProperty = getReadIniFunction(chorusSection)
@@ -184,6 +237,21 @@ function validateSettings(settingsIni: IIniObject) {
   return settings
 }
 
+/**
+ * @returns the comma-separated items in `value`, or `undefined` if `value` is `undefined`.
+ * @throws an exception if any of the items are not in `validItems`.
+ */
+function parseListSetting(property: string, value: string | undefined, validItems: readonly string[]) {
+  if (value === undefined) { return undefined }
+
+  const items = value.split(',').map(item => item.trim()).filter(item => item != '')
+  const invalidItem = items.find(item => !validItems.includes(item))
+  if (invalidItem !== undefined) {
+    throw `Error: "${property}" in "settings.ini" contains "${invalidItem}", which is not one of: ${validItems.join(', ')}`
+  }
+  return items
+}
+
 /**
  * @returns the value retrieved from `section[property]`, which should be the same type as `typeExample`.
  * The value is parsed by `parseFunction` first if it's defined.
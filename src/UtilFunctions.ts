@@ -5,18 +5,20 @@ import { existsSync } from 'fs'
 import { NamedFolderID } from './ScanSettings'
 import { createHash } from 'crypto'
 import sanitize from 'sanitize-filename'
-import { redBright } from 'cli-color'
 
 const readdir = util.promisify(fs.readdir)
 
 export type ValueOf<T> = T[keyof T]
 
+/**
+ * @returns the files and folders in the folder at `folderpath`.
+ * @throws a string error description if the folder could not be read.
+ */
 export async function readFolder(folderpath: string) {
   try {
     return await readdir(folderpath, { withFileTypes: true })
   } catch (err) {
-    console.log(redBright(`Error: Failed to read folder at [${folderpath}]`, err))
-    throw new Error()
+    throw `Error: Failed to read folder at [${folderpath}] (${(err as NodeJS.ErrnoException).code ?? err})`
   }
 }
 
@@ -1,4 +1,4 @@
-import { redBright } from 'cli-color'
+import { green, redBright } from 'cli-color'
 import { scanSettings } from './ScanSettings'
 import { keyInPause } from 'readline-sync'
 import { googleAuth } from './Drive/GoogleAuth'
@@ -6,11 +6,20 @@ import { DriveScanner, generateSources } from './Drive/DriveScanner'
 import { ChartsDownloader } from './Drive/ChartDownloader'
 import { scanCharts } from './Chart/Construction/ChartsScanner'
 import { DriveMap } from './Drive/DriveInterfaces'
+import { issueRegistry } from './Issues/IssueRegistry'
+import { writeHtmlReport } from './Reports/HtmlReport'
+import { writeCsvReport, writeJsonReport } from './Reports/DataExport'
+import { ErrorFixer } from './Fixes/ErrorFixer'
+import { undoJournal } from './Fixes/FixJournal'
 
 void main()
 
 async function main() {
   try {
+    if (scanSettings.undoJournalPath) {
+      return await undoJournal(scanSettings.undoJournalPath)
+    }
+
     let driveMap: DriveMap = {}
     if (scanSettings.driveFolderIDs) {
       await googleAuth.authenticate()
@@ -19,11 +28,14 @@ async function main() {
       await new ChartsDownloader().downloadCharts(driveMap)
     }
 
-    await scanCharts(driveMap)
+    const { charts } = await scanCharts(driveMap)
+    const reportPaths = [await writeHtmlReport(charts), await writeJsonReport(charts), await writeCsvReport(charts)]
+    issueRegistry.printIssues()
+    console.log(green(`The scan results have been saved to [${reportPaths.join('], [')}].`))
 
-    // TODO: check for errors in charts during the scan process
-    // TODO: generate standalone .html file that looks like the website to display the generated errors
-    //  (replace the drive folder link with a button to copy the path to the folder)
+    if (scanSettings.fixErrors) {
+      await new ErrorFixer().fixErrors(issueRegistry.getIssues(), charts)
+    }
   } catch (err) {
     console.log(redBright(err))
   }
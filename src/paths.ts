@@ -4,6 +4,15 @@ import * as path from 'path'
 export const SNAPSHOT_SETTINGS_PATH = path.join(__dirname, 'settings.ini')
 export const SETTINGS_PATH = './settings.ini'
 
+// Reports
+export const HTML_REPORT_PATH = './errorReport.html'
+export const JSON_REPORT_PATH = './scanResults.json'
+export const CSV_REPORT_PATH = './errorList.csv'
+export const FIX_LOG_PATH = './fixLog.txt'
+
+// Scan cache (stored in `scanSettings.chartFolderPath`)
+export const SCAN_CACHE_FILENAME = '.scanCache.json'
+
 // URL
 export const serverURL = 'bridge-db.net'
 
@@ -0,0 +1,39 @@
+declare module 'midifile' {
+
+  namespace MIDIFile {
+    interface MIDIFileHeader {
+      getFormat(): number
+      getTracksCount(): number
+      /** 1 if the time division is in frames per second, 2 if it is in ticks per beat */
+      getTimeDivision(): number
+      getTicksPerBeat(): number
+    }
+
+    interface MIDIEvent {
+      /** The number of ticks since the previous event in the same track */
+      delta: number
+      /** 0xFF for meta events, 0xF0 or 0xF7 for SysEx events, 0x8 for MIDI events */
+      type: number
+      /** The meta event type or MIDI event type (e.g. 0x03 is a track name, 0x9 is note on) */
+      subtype?: number
+      /** The bytes of text, SysEx, or time signature events */
+      data?: number[]
+      /** The note number of note events, or the numerator of time signature events */
+      param1?: number
+      /** The velocity of note events, or the denominator (as a power of two) of time signature events */
+      param2?: number
+      /** The number of microseconds per beat of tempo events */
+      tempo?: number
+      tempoBPM?: number
+    }
+  }
+
+  class MIDIFile {
+    constructor(buffer: ArrayBuffer | Uint8Array, strictMode?: boolean)
+    header: MIDIFile.MIDIFileHeader
+    tracks: unknown[]
+    getTrackEvents(index: number): MIDIFile.MIDIEvent[]
+  }
+
+  export = MIDIFile
+}